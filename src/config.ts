@@ -0,0 +1,181 @@
+/**
+ * Application configuration for the worker and its Durable Objects.
+ *
+ * Collects every tunable value in one typed object: the pure engine config
+ * plus response sizes, cookie lifetime and the idempotency window. Values are read from wrangler `vars` and validated once per
+ * request; anything unset keeps its default.
+ */
+
+import { DEFAULT_ENGINE_CONFIG, validateEngineConfig, type EngineConfig } from './domain/config';
+import type { Stats } from './domain/state';
+import type { PacingPolicy } from './domain/pacing';
+
+/**
+ * Full configuration consumed by index.ts and PlayerStateDO.
+ */
+export interface AppConfig {
+	/** Engine config (time thresholds, quest choices, initial stats, pacing) */
+	engine: EngineConfig;
+	/** Quest cards returned by GET /api/quests */
+	questCardsPerResponse: number;
+	/** Receipts per page of GET /api/receipts when no limit is given */
+	receiptPageSize: number;
+	/** playerId cookie lifetime in seconds */
+	cookieMaxAgeSeconds: number;
+	/** How long responses to requests with an Idempotency-Key are replayed, in seconds */
+	idempotencyWindowSeconds: number;
+}
+
+/**
+ * Defaults matching the original hard-coded values.
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+	engine: DEFAULT_ENGINE_CONFIG,
+	questCardsPerResponse: 1, // One quest per day
+	receiptPageSize: 50,
+	cookieMaxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
+	idempotencyWindowSeconds: 60 * 60 * 24, // 1 day
+};
+
+/**
+ * Env vars read by loadConfig (all optional strings, as wrangler provides them).
+ * INITIAL_STATS is JSON, e.g. {"agency":5,"courage":3,"order":4}.
+ * PACING_POLICY is daily_rest, rolling_rest or none; REST_WINDOW_MS is the
+ * rolling_rest window.
+ */
+export type ConfigEnv = Partial<
+	Pick<
+		Env,
+		| 'TIME_RECENT_MS'
+		| 'TIME_LONG_GAP_MS'
+		| 'MAX_QUEST_CHOICES'
+		| 'QUEST_CARDS_PER_RESPONSE'
+		| 'INITIAL_STATS'
+		| 'PACING_POLICY'
+		| 'REST_WINDOW_MS'
+		| 'RECEIPT_PAGE_SIZE'
+		| 'COOKIE_MAX_AGE_SECONDS'
+		| 'IDEMPOTENCY_WINDOW_SECONDS'
+	>
+>;
+
+/**
+ * Parses an optional numeric var, recording an issue when it is not a number.
+ */
+function readNumber(env: ConfigEnv, name: keyof ConfigEnv, fallback: number, issues: string[]): number {
+	const raw = env[name];
+	if (raw === undefined || raw === '') {
+		return fallback;
+	}
+
+	const value = Number(raw);
+	if (!Number.isFinite(value)) {
+		issues.push(`${name} must be a number`);
+		return fallback;
+	}
+	return value;
+}
+
+/**
+ * Parses the optional INITIAL_STATS var (JSON, missing stats keep their default).
+ */
+function readInitialStats(env: ConfigEnv, fallback: Stats, issues: string[]): Stats {
+	if (env.INITIAL_STATS === undefined || env.INITIAL_STATS === '') {
+		return fallback;
+	}
+
+	try {
+		const parsed = JSON.parse(env.INITIAL_STATS) as Partial<Stats>;
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			issues.push('INITIAL_STATS must be a JSON object');
+			return fallback;
+		}
+		const unknown = Object.keys(parsed).filter((key) => !(key in fallback));
+		if (unknown.length > 0) {
+			issues.push(`INITIAL_STATS has unknown stats: ${unknown.join(', ')}`);
+			return fallback;
+		}
+		return { ...fallback, ...parsed };
+	} catch {
+		issues.push('INITIAL_STATS must be valid JSON');
+		return fallback;
+	}
+}
+
+/**
+ * Default rolling_rest window when REST_WINDOW_MS is unset.
+ */
+const DEFAULT_REST_WINDOW_MS = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Parses the optional PACING_POLICY and REST_WINDOW_MS vars.
+ */
+function readPacingPolicy(env: ConfigEnv, fallback: PacingPolicy, issues: string[]): PacingPolicy {
+	const kind = env.PACING_POLICY === undefined || env.PACING_POLICY === '' ? fallback.kind : env.PACING_POLICY;
+	switch (kind) {
+		case 'daily_rest':
+		case 'none':
+			return { kind };
+		case 'rolling_rest':
+			return {
+				kind,
+				windowMs: readNumber(
+					env,
+					'REST_WINDOW_MS',
+					fallback.kind === 'rolling_rest' ? fallback.windowMs : DEFAULT_REST_WINDOW_MS,
+					issues
+				),
+			};
+		default:
+			issues.push('PACING_POLICY must be one of: daily_rest, rolling_rest, none');
+			return fallback;
+	}
+}
+
+/**
+ * Checks a count-like value, recording an issue when it is not a positive integer.
+ */
+function requirePositiveInteger(value: number, name: string, issues: string[]): void {
+	if (!Number.isInteger(value) || value < 1) {
+		issues.push(`${name} must be a positive integer`);
+	}
+}
+
+/**
+ * Loads and validates configuration from env vars.
+ * Throws with every problem listed when any value is invalid, so a bad
+ * deployment fails loudly instead of running with a half-applied config.
+ */
+export function loadConfig(env: ConfigEnv): AppConfig {
+	const issues: string[] = [];
+	const defaults = DEFAULT_APP_CONFIG;
+
+	const engine: EngineConfig = {
+		timeThresholdsMs: {
+			recentMs: readNumber(env, 'TIME_RECENT_MS', defaults.engine.timeThresholdsMs.recentMs, issues),
+			longGapMs: readNumber(env, 'TIME_LONG_GAP_MS', defaults.engine.timeThresholdsMs.longGapMs, issues),
+		},
+		maxQuestChoices: readNumber(env, 'MAX_QUEST_CHOICES', defaults.engine.maxQuestChoices, issues),
+		initialStats: readInitialStats(env, defaults.engine.initialStats, issues),
+		pacing: readPacingPolicy(env, defaults.engine.pacing, issues),
+	};
+	issues.push(...validateEngineConfig(engine));
+
+	const config: AppConfig = {
+		engine,
+		questCardsPerResponse: readNumber(env, 'QUEST_CARDS_PER_RESPONSE', defaults.questCardsPerResponse, issues),
+		receiptPageSize: readNumber(env, 'RECEIPT_PAGE_SIZE', defaults.receiptPageSize, issues),
+		cookieMaxAgeSeconds: readNumber(env, 'COOKIE_MAX_AGE_SECONDS', defaults.cookieMaxAgeSeconds, issues),
+		idempotencyWindowSeconds: readNumber(env, 'IDEMPOTENCY_WINDOW_SECONDS', defaults.idempotencyWindowSeconds, issues),
+	};
+	requirePositiveInteger(config.questCardsPerResponse, 'questCardsPerResponse', issues);
+	requirePositiveInteger(config.receiptPageSize, 'receiptPageSize', issues);
+	requirePositiveInteger(config.cookieMaxAgeSeconds, 'cookieMaxAgeSeconds', issues);
+	requirePositiveInteger(config.idempotencyWindowSeconds, 'idempotencyWindowSeconds', issues);
+
+	if (issues.length > 0) {
+		throw new Error(`Invalid configuration: ${issues.join('; ')}`);
+	}
+
+	return config;
+}
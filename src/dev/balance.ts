@@ -0,0 +1,156 @@
+/**
+ * Catalog balance report.
+ *
+ * Runs thousands of synthetic players with different behavior profiles
+ * through quest selection and the engine transitions, then prints stat
+ * distributions over time, quests never offered, quests that dominate
+ * selection, and flags never set.
+ * Exits with code 1 if any quest dominates selection, so "the easiest quest
+ * should never dominate" can be checked as the catalog grows.
+ *
+ * Run with:
+ *   npm run balance
+ *   npm run balance -- --players 5000 --days 90 --seed 7 --profile long_absences
+ *
+ * Options:
+ *   --players <n>      Synthetic players per profile (default 1000)
+ *   --days <n>         Simulated days per player (default 60)
+ *   --seed <n>         Random seed (default 1)
+ *   --sample <n>       Days between stat samples (default 7)
+ *   --choices <n>      Quests offered per visit (default: engine maxQuestChoices)
+ *   --dominance <0-1>  Selection share that counts as dominant (default 0.5)
+ *   --profile <id>     Run only this profile (repeatable)
+ *   --json             Print the raw report as JSON
+ */
+
+import {
+  BALANCE_PROFILES,
+  DEFAULT_BALANCE_OPTIONS,
+  runBalanceReport,
+  type BalanceOptions,
+  type ProfileBalanceReport,
+} from '../domain/balance.js';
+import { catalog } from '../quests/catalog.js';
+
+// -----------------------------------------------------------------------------
+// Arguments
+// -----------------------------------------------------------------------------
+
+/**
+ * Reads the value following a flag as a number, exiting on bad input.
+ */
+function readNumberArg(args: string[], index: number, flag: string): number {
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value <= 0) {
+    console.error(`✗ ${flag} needs a positive number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const args = process.argv.slice(2);
+const options: BalanceOptions = { ...DEFAULT_BALANCE_OPTIONS };
+const profileIds: string[] = [];
+let printJson = false;
+
+for (let i = 0; i < args.length; i++) {
+  switch (args[i]) {
+    case '--players':
+      options.players = readNumberArg(args, i++, '--players');
+      break;
+    case '--days':
+      options.days = readNumberArg(args, i++, '--days');
+      break;
+    case '--seed':
+      options.seed = readNumberArg(args, i++, '--seed');
+      break;
+    case '--sample':
+      options.sampleEveryDays = readNumberArg(args, i++, '--sample');
+      break;
+    case '--choices':
+      options.choicesPerVisit = readNumberArg(args, i++, '--choices');
+      break;
+    case '--dominance':
+      options.dominanceShare = readNumberArg(args, i++, '--dominance');
+      break;
+    case '--profile':
+      profileIds.push(args[++i]);
+      break;
+    case '--json':
+      printJson = true;
+      break;
+    default:
+      console.error(`✗ Unknown option: ${args[i]}`);
+      process.exit(1);
+  }
+}
+
+const unknownProfiles = profileIds.filter((id) => !BALANCE_PROFILES.some((profile) => profile.id === id));
+if (unknownProfiles.length > 0) {
+  console.error(`✗ Unknown profile(s): ${unknownProfiles.join(', ')}`);
+  console.error(`  Known profiles: ${BALANCE_PROFILES.map((profile) => profile.id).join(', ')}`);
+  process.exit(1);
+}
+
+const profiles =
+  profileIds.length > 0 ? BALANCE_PROFILES.filter((profile) => profileIds.includes(profile.id)) : BALANCE_PROFILES;
+
+// -----------------------------------------------------------------------------
+// Report
+// -----------------------------------------------------------------------------
+
+/**
+ * Prints one profile's findings as plain text tables.
+ */
+function printProfileReport(report: ProfileBalanceReport): void {
+  const profile = profiles.find((candidate) => candidate.id === report.profileId);
+
+  console.log(`\n=== PROFILE: ${report.profileId} ===`);
+  console.log(`${profile?.description ?? ''}`);
+  console.log(`${report.players} players × ${report.days} days`);
+
+  console.log('\nStats over time (min / median / mean / max):');
+  for (const sample of report.statsOverTime) {
+    const columns = Object.entries(sample.stats).map(
+      ([stat, d]) => `${stat} ${d.min}/${d.median}/${d.mean.toFixed(2)}/${d.max}`
+    );
+    console.log(`  day ${String(sample.day).padStart(3)}: ${columns.join('   ')}`);
+  }
+
+  console.log('\nQuests (offered / started / completed / set aside / selection share):');
+  for (const quest of report.quests) {
+    const share = `${(quest.selectionShare * 100).toFixed(1)}%`;
+    console.log(
+      `  ${quest.questId.padEnd(36)} ${quest.offered} / ${quest.started} / ${quest.completed} / ${quest.setAside} / ${share}`
+    );
+  }
+
+  console.log(`\nNever offered: ${report.neverOffered.join(', ') || '(none)'}`);
+  console.log(`Dominant: ${report.dominant.join(', ') || '(none)'}`);
+  console.log(`Flags never set: ${report.flagsNeverSet.join(', ') || '(none)'}`);
+}
+
+const reports = runBalanceReport(catalog, profiles, options);
+
+if (printJson) {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  reports.forEach(printProfileReport);
+}
+
+// -----------------------------------------------------------------------------
+// Done
+// -----------------------------------------------------------------------------
+
+const dominated = reports.filter((report) => report.dominant.length > 0);
+
+if (dominated.length > 0) {
+  if (!printJson) {
+    console.log(`\n✗ Selection dominated in: ${dominated.map((report) => report.profileId).join(', ')}`);
+  }
+  process.exit(1);
+}
+
+if (!printJson) {
+  console.log('\n✓ No quest dominates selection');
+}
@@ -10,7 +10,8 @@ import { join, extname, relative, posix } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
-import type { QuestNodeWithAvailability } from '../domain/quests.js';
+import type { AvailabilityCondition, QuestNarrativeFragment, QuestNodeWithAvailability } from '../domain/quests.js';
+import { NARRATIVE_LIMITS } from '../domain/narrative.js';
 
 // Get the directory of this file
 const __filename = fileURLToPath(import.meta.url);
@@ -152,6 +153,60 @@ function containsGuiltShame(text: string): boolean {
   return GUILT_SHAME_PHRASES.some((phrase) => lower.includes(phrase));
 }
 
+/**
+ * Validates an availability condition tree, returning one message per problem.
+ * Checks structure only (known kinds, required fields); not reachability.
+ */
+function validateCondition(condition: AvailabilityCondition, path: string): string[] {
+  const problems: string[] = [];
+
+  if (!condition || typeof condition !== 'object') {
+    return [`${path} must be an object`];
+  }
+
+  switch (condition.kind) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(condition.conditions)) {
+        return [`${path}.conditions must be an array`];
+      }
+      condition.conditions.forEach((nested, i) => {
+        problems.push(...validateCondition(nested, `${path}.conditions[${i}]`));
+      });
+      return problems;
+    case 'not':
+      return validateCondition(condition.condition, `${path}.condition`);
+    case 'stat':
+      if (!['agency', 'courage', 'order'].includes(condition.stat)) {
+        problems.push(`${path}.stat must be one of 'agency' | 'courage' | 'order'`);
+      }
+      if (condition.min === undefined && condition.max === undefined) {
+        problems.push(`${path} must set min or max`);
+      }
+      return problems;
+    case 'has_flag':
+    case 'lacks_flag':
+      if (typeof condition.flag !== 'string' || condition.flag.trim() === '') {
+        problems.push(`${path}.flag must be a non-empty string`);
+      }
+      return problems;
+    case 'time_range':
+      if (!Array.isArray(condition.in) || condition.in.length === 0) {
+        problems.push(`${path}.in must be a non-empty array of time ranges`);
+      }
+      return problems;
+    case 'unlocked':
+    case 'completed':
+    case 'since_completed':
+      if (typeof condition.questId !== 'string' || condition.questId.trim() === '') {
+        problems.push(`${path}.questId must be a non-empty string`);
+      }
+      return problems;
+    default:
+      return [`${path}.kind is not a known condition kind`];
+  }
+}
+
 /**
  * Validates a single quest against v1 rules.
  */
@@ -262,6 +317,35 @@ function validateQuest(
     }
   }
 
+  // Rule: If avoidance exists: changes something (never a no-op path)
+  if (quest.avoidance !== undefined) {
+    const hasFlagsToSet =
+      quest.avoidance.flagsToSet && quest.avoidance.flagsToSet.length > 0;
+    const hasFlagsToClear =
+      quest.avoidance.flagsToClear && quest.avoidance.flagsToClear.length > 0;
+    const hasUnlocksQuests =
+      quest.avoidance.unlocksQuests && quest.avoidance.unlocksQuests.length > 0;
+
+    if (!hasFlagsToSet && !hasFlagsToClear && !hasUnlocksQuests) {
+      errors.push({
+        file,
+        questId,
+        rule: 'avoidance-changes-something',
+        message:
+          'avoidance must change something if provided (flagsToSet, flagsToClear, or unlocksQuests)',
+      });
+    }
+
+    if ('statChanges' in quest.avoidance) {
+      errors.push({
+        file,
+        questId,
+        rule: 'avoidance-no-stat-changes',
+        message: 'avoidance must not change stats (avoidance does not reduce stats)',
+      });
+    }
+  }
+
   // Rule: availability exists (can be empty object)
   if (!quest.availability) {
     errors.push({
@@ -272,6 +356,18 @@ function validateQuest(
     });
   }
 
+  // Rule: If availability.when exists: well-formed condition tree
+  if (quest.availability?.when !== undefined) {
+    for (const problem of validateCondition(quest.availability.when, 'availability.when')) {
+      errors.push({
+        file,
+        questId,
+        rule: 'when-valid',
+        message: problem,
+      });
+    }
+  }
+
   // Rule: constraint must end with punctuation
   if (quest.constraint) {
     const trimmed = quest.constraint.trim();
@@ -322,12 +418,64 @@ function validateQuest(
     });
   }
 
+  // Rule: If narrative fragments exist: non-empty title and line within summary limits
+  const fragments = Object.entries(quest.narrative ?? {}) as Array<[string, QuestNarrativeFragment]>;
+  for (const [moment, fragment] of fragments) {
+    const limits: Array<[keyof QuestNarrativeFragment, number]> = [
+      ['title', NARRATIVE_LIMITS.title],
+      ['line', NARRATIVE_LIMITS.line],
+      ['shareText', NARRATIVE_LIMITS.shareText],
+    ];
+    for (const [field, max] of limits) {
+      const value = fragment[field];
+      if (value === undefined && field === 'shareText') {
+        continue;
+      }
+      if (typeof value !== 'string' || value.trim() === '') {
+        errors.push({
+          file,
+          questId,
+          rule: 'narrative-non-empty',
+          message: `narrative.${moment}.${field} must be a non-empty string`,
+        });
+      } else if (value.length > max) {
+        errors.push({
+          file,
+          questId,
+          rule: 'narrative-length',
+          message: `narrative.${moment}.${field} must be <= ${max} chars, got ${value.length}`,
+        });
+      }
+    }
+    if (fragment.tone !== undefined && !['calm', 'warm', 'observational'].includes(fragment.tone)) {
+      errors.push({
+        file,
+        questId,
+        rule: 'narrative-tone',
+        message: `narrative.${moment}.tone must be one of 'calm' | 'warm' | 'observational'`,
+      });
+    }
+    if (moment !== 'completed' && fragment.shareText !== undefined) {
+      errors.push({
+        file,
+        questId,
+        rule: 'narrative-share-text',
+        message: `narrative.${moment}.shareText is only used for completed`,
+      });
+    }
+  }
+
   // Rule: Optional - reject guilt/shame phrases
   const textFields = [
     { name: 'context', value: quest.context },
     { name: 'realWorldAction', value: quest.realWorldAction },
     { name: 'constraint', value: quest.constraint },
     { name: 'reflection', value: quest.reflection },
+    ...fragments.flatMap(([moment, fragment]) => [
+      { name: `narrative.${moment}.title`, value: fragment.title },
+      { name: `narrative.${moment}.line`, value: fragment.line },
+      { name: `narrative.${moment}.shareText`, value: fragment.shareText },
+    ]),
   ];
 
   for (const field of textFields) {
@@ -344,6 +492,53 @@ function validateQuest(
   return errors;
 }
 
+/**
+ * Validates the quest graph across all quests.
+ *
+ * Every unlock must point at a known quest, and every quest that requires
+ * an unlock must be reachable from some other quest (completion or avoidance).
+ */
+function validateQuestGraph(
+  allQuests: Array<{ file: string; quest: QuestNodeWithAvailability }>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const knownIds = new Set(allQuests.map(({ quest }) => quest.id));
+  const unlockedIds = new Set<string>();
+
+  for (const { file, quest } of allQuests) {
+    const unlocks = [
+      ...(quest.consequence?.unlocksQuests ?? []),
+      ...(quest.avoidance?.unlocksQuests ?? []),
+    ];
+
+    for (const unlockedId of unlocks) {
+      unlockedIds.add(unlockedId);
+
+      if (!knownIds.has(unlockedId)) {
+        errors.push({
+          file,
+          questId: quest.id,
+          rule: 'unlocks-known-quest',
+          message: `unlocksQuests references unknown quest: ${unlockedId}`,
+        });
+      }
+    }
+  }
+
+  for (const { file, quest } of allQuests) {
+    if (quest.availability?.requiresUnlock && !unlockedIds.has(quest.id)) {
+      errors.push({
+        file,
+        questId: quest.id,
+        rule: 'requires-unlock-reachable',
+        message: 'requiresUnlock is set but no quest unlocks this quest',
+      });
+    }
+  }
+
+  return errors;
+}
+
 // ============================================================================
 // Main
 // ============================================================================
@@ -359,6 +554,8 @@ async function main() {
     allErrors.push(...errors);
   }
 
+  allErrors.push(...validateQuestGraph(allQuests));
+
   if (allErrors.length === 0) {
     console.log('✓ All quests valid\n');
     process.exit(0);
@@ -0,0 +1,109 @@
+/**
+ * Timeline simulator for quest authors.
+ *
+ * Replays a JSON timeline of player actions through the pure engine and
+ * prints every state and event, so a quest author can see how a quest
+ * changes a player's path before shipping it. Steps can carry expectations;
+ * the script exits with code 1 when any of them is not met.
+ *
+ * Run with:
+ *   npm run simulate
+ *   npm run simulate -- path/to/timeline.json
+ *
+ * Timeline format (see src/dev/timelines/ for examples):
+ *   {
+ *     "startMs": 1735689600000,
+ *     "initialState": { "stats": { "agency": 5 }, "flags": [] },
+ *     "steps": [
+ *       { "day": 0, "action": "start", "questId": "v1-reentry-agency-1" },
+ *       { "day": 0.1, "action": "complete", "questId": "v1-reentry-agency-1",
+ *         "expect": { "stats": { "agency": 6 }, "hasFlags": ["returned-to-action"] } },
+ *       { "day": 9, "action": "tick", "expect": { "range": "long_gap" } }
+ *     ]
+ *   }
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+import { simulate, type SimulationScript } from '../domain/simulation.js';
+import type { CharacterState } from '../domain/state.js';
+import { DEFAULT_ENGINE_CONFIG } from '../domain/config.js';
+import { CURRENT_SCHEMA_VERSION, deserializeState, type StoredState } from '../http/state-serialization.js';
+import { catalog } from '../quests/catalog.js';
+
+// Get the directory of this file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// Timeline Loading
+// -----------------------------------------------------------------------------
+
+/**
+ * Timeline file format: a simulation script plus an optional starting state.
+ * Missing parts of initialState fall back to a brand new player.
+ */
+interface TimelineFile extends SimulationScript {
+  initialState?: Partial<StoredState>;
+}
+
+const timelinePath = process.argv[2] ?? join(__dirname, 'timelines', 'sixty-day-path.json');
+const timeline = JSON.parse(readFileSync(timelinePath, 'utf-8')) as TimelineFile;
+const startMs = timeline.startMs ?? 0;
+
+const initialState: CharacterState = deserializeState({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  flags: [],
+  completions: {},
+  ...timeline.initialState,
+  stats: { ...DEFAULT_ENGINE_CONFIG.initialStats, ...timeline.initialState?.stats },
+  timeContext: { range: 'long_gap', nowMs: startMs, ...timeline.initialState?.timeContext },
+});
+
+console.log(`\n=== TIMELINE: ${timelinePath} ===`);
+console.log('Initial state:');
+console.dir(initialState, { depth: null });
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+const result = simulate(initialState, { ...timeline, startMs }, catalog);
+
+for (const step of result.steps) {
+  const day = ((step.atMs - startMs) / DAY_MS).toFixed(1);
+  const target = step.questId ? ` ${step.questId}` : '';
+
+  console.log(`\n=== STEP ${step.index + 1} (day ${day}): ${step.action}${target} ===`);
+  console.log('Events:');
+  console.dir(step.events, { depth: null });
+  console.log('State:');
+  console.dir(step.state, { depth: null });
+  console.log(`Offered: ${step.offered.length > 0 ? step.offered.join(', ') : '(none)'}`);
+
+  for (const failure of step.failures) {
+    console.log(`✗ ${failure}`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Summary
+// -----------------------------------------------------------------------------
+
+const failed = result.steps.filter((step) => step.failures.length > 0);
+
+console.log('\n=== SUMMARY ===');
+console.log(`Steps: ${result.steps.length}`);
+console.log(`Final stats: ${JSON.stringify(result.finalState.stats)}`);
+console.log(`Final flags: ${Array.from(result.finalState.flags).join(', ') || '(none)'}`);
+
+if (failed.length > 0) {
+  console.log(`✗ ${failed.length} step(s) did not meet expectations: ${failed.map((step) => step.index + 1).join(', ')}`);
+  process.exit(1);
+}
+
+console.log('✓ All expectations met');
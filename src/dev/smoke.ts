@@ -6,6 +6,7 @@
  * - quests become available
  * - starting a quest emits events
  * - completing a quest mutates state and emits consequences
+ * - completed quests are not offered again
  *
  * Run with:
  *   npx ts-node src/dev/smoke.ts
@@ -56,7 +57,7 @@ console.dir(tickResult.state, { depth: null });
 // Get Available Quests
 // -----------------------------------------------------------------------------
 
-const availableQuests = getAvailableQuests(
+const { quests: availableQuests } = getAvailableQuests(
   tickResult.state,
   catalog,
   nowMs
@@ -110,6 +111,25 @@ console.dir(completeResult.events, { depth: null });
 console.log('State:');
 console.dir(completeResult.state, { depth: null });
 
+// -----------------------------------------------------------------------------
+// Available Quests After Completion
+// -----------------------------------------------------------------------------
+
+// Completion history is part of state, so the pacing policy suggests rest for today
+const next = getAvailableQuests(
+  completeResult.state,
+  catalog,
+  nowMs
+);
+
+console.log('\n=== AVAILABLE QUESTS AFTER COMPLETION ===');
+next.quests.forEach((q, i) => {
+  console.log(`${i + 1}. ${q.id} [${q.type}]`);
+});
+next.events.forEach((e) => {
+  console.log(`Event: ${e.type}`);
+});
+
 // -----------------------------------------------------------------------------
 // Done
 // -----------------------------------------------------------------------------
@@ -0,0 +1,377 @@
+/**
+ * Catalog balance analysis for the life-as-a-game system.
+ *
+ * This file runs many synthetic players with simple behavior profiles
+ * through the quest selection pipeline and the engine transitions, then
+ * summarizes how the catalog behaves: stat distributions over time, quests
+ * never offered, quests that dominate selection, and flags never set.
+ * It exists to keep "the easiest quest should never dominate" true as the
+ * catalog grows.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/quests.md
+ * - docs/stats.md
+ * - docs/time.md
+ *
+ * Non-goals (not included):
+ * - Modelling real player behavior (profiles are deliberately crude)
+ * - Printing reports or reading options (see src/dev/balance.ts)
+ * - Tuning the catalog automatically
+ */
+
+import type { CharacterState, StatKey } from './state.js';
+import type { QuestId, QuestNodeWithAvailability } from './quests.js';
+import type { QuestCatalog } from './engine.js';
+import { tick, startQuest, completeQuest, setAsideQuest } from './engine.js';
+import { chooseQuests } from './rules.js';
+import { suggestRest } from './pacing.js';
+import { DEFAULT_ENGINE_CONFIG } from './config.js';
+import type { EngineConfig } from './config.js';
+
+// ============================================================================
+// Behavior Profiles
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STAT_KEYS: StatKey[] = ['agency', 'courage', 'order'];
+
+/**
+ * BehaviorProfile: How a synthetic player acts, as per-day probabilities.
+ *
+ * Constraint: quests.md - "Silence is allowed between quests"
+ * Constraint: time.md - "Time does not judge. It simply moves forward."
+ *
+ * On each day the player may visit. During a visit an active quest is
+ * completed, set aside, or left alone; with no active quest the player
+ * may start one of the offered quests (picked uniformly).
+ * An absence suppresses visits for a number of days.
+ */
+export interface BehaviorProfile {
+  id: string;
+  description: string;
+  /** Chance of visiting on a given day */
+  visitChance: number;
+  /** Chance of starting an offered quest during a visit */
+  startChance: number;
+  /** Chance of completing the active quest during a visit */
+  completeChance: number;
+  /** Chance of setting aside the active quest when not completing it */
+  setAsideChance: number;
+  /** Occasional long absences */
+  absence?: {
+    /** Chance of an absence beginning on a given day */
+    chancePerDay: number;
+    minDays: number;
+    maxDays: number;
+  };
+}
+
+/**
+ * BALANCE_PROFILES: The default behavior profiles.
+ */
+export const BALANCE_PROFILES: BehaviorProfile[] = [
+  {
+    id: 'always_completes',
+    description: 'Visits daily, starts what is offered, completes it on the next visit',
+    visitChance: 1,
+    startChance: 1,
+    completeChance: 1,
+    setAsideChance: 0,
+  },
+  {
+    id: 'rarely_completes',
+    description: 'Visits most days, starts often, rarely completes and often sets aside',
+    visitChance: 0.8,
+    startChance: 0.9,
+    completeChance: 0.15,
+    setAsideChance: 0.4,
+  },
+  {
+    id: 'long_absences',
+    description: 'Visits in bursts separated by absences of one to four weeks',
+    visitChance: 0.7,
+    startChance: 0.7,
+    completeChance: 0.6,
+    setAsideChance: 0.1,
+    absence: { chancePerDay: 0.05, minDays: 7, maxDays: 28 },
+  },
+];
+
+// ============================================================================
+// Options and Report
+// ============================================================================
+
+/**
+ * BalanceOptions: Size and shape of a balance run.
+ *
+ * The same options and seed always produce the same report.
+ */
+export interface BalanceOptions {
+  /** Synthetic players per profile */
+  players: number;
+  /** Simulated days per player */
+  days: number;
+  /** Seed for the pseudo-random generator */
+  seed: number;
+  /** Starting time of every player, in milliseconds */
+  startMs: number;
+  /** Days between stat distribution samples */
+  sampleEveryDays: number;
+  /** Selection share above which a quest counts as dominant (0-1) */
+  dominanceShare: number;
+  /** Quests offered per visit (defaults to config.maxQuestChoices) */
+  choicesPerVisit?: number;
+  /** Engine config (defaults to DEFAULT_ENGINE_CONFIG) */
+  config?: EngineConfig;
+}
+
+/**
+ * DEFAULT_BALANCE_OPTIONS: A quick run suitable for local use.
+ */
+export const DEFAULT_BALANCE_OPTIONS: BalanceOptions = {
+  players: 1000,
+  days: 60,
+  seed: 1,
+  startMs: Date.UTC(2025, 0, 1),
+  sampleEveryDays: 7,
+  dominanceShare: 0.5,
+};
+
+/**
+ * StatDistribution: Summary of one stat across players at one sample day.
+ */
+export interface StatDistribution {
+  min: number;
+  median: number;
+  mean: number;
+  max: number;
+}
+
+/**
+ * StatSample: Every stat's distribution at one sample day.
+ */
+export interface StatSample {
+  day: number;
+  stats: Record<StatKey, StatDistribution>;
+}
+
+/**
+ * QuestUsage: How often a quest appeared and was acted on.
+ *
+ * selectionShare is this quest's share of all quest starts.
+ */
+export interface QuestUsage {
+  questId: QuestId;
+  offered: number;
+  started: number;
+  completed: number;
+  setAside: number;
+  selectionShare: number;
+}
+
+/**
+ * ProfileBalanceReport: Balance findings for one behavior profile.
+ */
+export interface ProfileBalanceReport {
+  profileId: string;
+  players: number;
+  days: number;
+  statsOverTime: StatSample[];
+  quests: QuestUsage[];
+  /** Quests in the catalog that were never offered */
+  neverOffered: QuestId[];
+  /** Quests whose selection share exceeds dominanceShare */
+  dominant: QuestId[];
+  /** Flags quests can set that no player ever got */
+  flagsNeverSet: string[];
+}
+
+// ============================================================================
+// Pseudo-Random Generator
+// ============================================================================
+
+/**
+ * Creates a seeded pseudo-random generator returning values in [0, 1).
+ * mulberry32: small, fast and good enough for balance estimates.
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// Report Helpers
+// ============================================================================
+
+/**
+ * Lists every flag a quest can set, through completion or avoidance.
+ */
+function settableFlags(quests: QuestNodeWithAvailability[]): string[] {
+  const flags = new Set<string>();
+  for (const quest of quests) {
+    quest.consequence.flagsToSet?.forEach((flag) => flags.add(flag));
+    quest.avoidance?.flagsToSet?.forEach((flag) => flags.add(flag));
+  }
+  return Array.from(flags);
+}
+
+/**
+ * Summarizes a list of values (must not be empty).
+ */
+function distribution(values: number[]): StatDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    min: sorted[0],
+    median: sorted[Math.floor(sorted.length / 2)],
+    mean: sum / sorted.length,
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Summarizes every stat across players.
+ */
+function sampleStats(day: number, states: CharacterState[]): StatSample {
+  const stats = {} as Record<StatKey, StatDistribution>;
+  for (const key of STAT_KEYS) {
+    stats[key] = distribution(states.map((state) => state.stats[key]));
+  }
+  return { day, stats };
+}
+
+// ============================================================================
+// Balance Run
+// ============================================================================
+
+/**
+ * Runs one behavior profile over the catalog and reports what happened.
+ *
+ * Constraint: quests.md - "The 'easiest' quest should never dominate"
+ * Constraint: quests.md - "Fewer choices are preferred"
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ *
+ * Stats are sampled every sampleEveryDays and once more at the end.
+ * Each player starts from config.initialStats in 'long_gap' and visits at a
+ * random time of day. Visits follow the worker: time is ticked first, and no
+ * quest is offered while config.pacing suggests rest (with daily_rest, on a
+ * UTC day a quest was already completed).
+ * Deterministic for a given seed.
+ */
+export function runBalanceProfile(
+  catalog: QuestCatalog,
+  profile: BehaviorProfile,
+  options: BalanceOptions
+): ProfileBalanceReport {
+  const config = options.config ?? DEFAULT_ENGINE_CONFIG;
+  const choicesPerVisit = options.choicesPerVisit ?? config.maxQuestChoices;
+  const quests = catalog.listAll?.() ?? [];
+  const random = createRandom(options.seed);
+
+  const usage = new Map<QuestId, QuestUsage>(
+    quests.map((quest) => [
+      quest.id,
+      { questId: quest.id, offered: 0, started: 0, completed: 0, setAside: 0, selectionShare: 0 },
+    ])
+  );
+  const count = (questId: QuestId, field: 'offered' | 'started' | 'completed' | 'setAside') => {
+    const record = usage.get(questId);
+    if (record) {
+      record[field]++;
+    }
+  };
+  const flagsSeen = new Set<string>();
+  const sampleDays = Array.from(
+    { length: Math.ceil(options.days / options.sampleEveryDays) },
+    (_, index) => index * options.sampleEveryDays
+  ).concat(options.days);
+  const samples: CharacterState[][] = sampleDays.map(() => []);
+
+  for (let player = 0; player < options.players; player++) {
+    let state: CharacterState = {
+      stats: { ...config.initialStats },
+      flags: new Set(),
+      timeContext: { range: 'long_gap', nowMs: options.startMs },
+    };
+    let absentUntilDay = -1;
+
+    for (let day = 0; day < options.days; day++) {
+      if (day % options.sampleEveryDays === 0) {
+        samples[day / options.sampleEveryDays].push(state);
+      }
+
+      if (profile.absence && day > absentUntilDay && random() < profile.absence.chancePerDay) {
+        const { minDays, maxDays } = profile.absence;
+        absentUntilDay = day + minDays + Math.floor(random() * (maxDays - minDays + 1)) - 1;
+      }
+      if (day <= absentUntilDay || random() >= profile.visitChance) {
+        continue;
+      }
+
+      const nowMs = options.startMs + day * DAY_MS + Math.floor(random() * DAY_MS);
+      state = tick(state, nowMs, config).state;
+
+      const active = state.activeQuest?.questId;
+      if (active) {
+        if (random() < profile.completeChance) {
+          state = completeQuest(state, active, catalog, nowMs).state;
+          count(active, 'completed');
+        } else if (random() < profile.setAsideChance) {
+          state = setAsideQuest(state, active, catalog, nowMs).state;
+          count(active, 'setAside');
+        }
+      }
+
+      if (!state.activeQuest && !suggestRest(state, nowMs, config.pacing)) {
+        const offered = chooseQuests(state, quests, nowMs, choicesPerVisit);
+        offered.forEach((quest) => count(quest.id, 'offered'));
+
+        if (offered.length > 0 && random() < profile.startChance) {
+          const quest = offered[Math.floor(random() * offered.length)];
+          state = startQuest(state, quest.id, catalog, nowMs).state;
+          count(quest.id, 'started');
+        }
+      }
+    }
+
+    samples[samples.length - 1].push(state);
+    state.flags.forEach((flag) => flagsSeen.add(flag));
+  }
+
+  const questUsage = Array.from(usage.values());
+  const totalStarts = questUsage.reduce((total, quest) => total + quest.started, 0);
+  for (const quest of questUsage) {
+    quest.selectionShare = totalStarts > 0 ? quest.started / totalStarts : 0;
+  }
+
+  return {
+    profileId: profile.id,
+    players: options.players,
+    days: options.days,
+    statsOverTime: samples.map((states, index) => sampleStats(sampleDays[index], states)),
+    quests: questUsage,
+    neverOffered: questUsage.filter((quest) => quest.offered === 0).map((quest) => quest.questId),
+    dominant: questUsage
+      .filter((quest) => quest.selectionShare > options.dominanceShare)
+      .map((quest) => quest.questId),
+    flagsNeverSet: settableFlags(quests).filter((flag) => !flagsSeen.has(flag)),
+  };
+}
+
+/**
+ * Runs every profile over the catalog (see runBalanceProfile).
+ */
+export function runBalanceReport(
+  catalog: QuestCatalog,
+  profiles: BehaviorProfile[] = BALANCE_PROFILES,
+  options: BalanceOptions = DEFAULT_BALANCE_OPTIONS
+): ProfileBalanceReport[] {
+  return profiles.map((profile) => runBalanceProfile(catalog, profile, options));
+}
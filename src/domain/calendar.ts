@@ -0,0 +1,83 @@
+/**
+ * Calendar days in a player's time zone.
+ *
+ * This file implements pure helpers for deciding which calendar day a
+ * timestamp falls on in an IANA time zone, so daily rules follow the
+ * player's own midnight instead of UTC midnight.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/quests.md
+ * - docs/time.md
+ *
+ * Non-goals (not included):
+ * - Storing or detecting the player's time zone
+ * - Hour-level scheduling
+ */
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+/**
+ * Time zone used when a player has none.
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Date formatters by time zone (building one is far slower than using it).
+ */
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the cached date formatter for a time zone, or undefined if the zone is unknown.
+ */
+function dateFormatter(timeZone: string): Intl.DateTimeFormat | undefined {
+  let formatter = dateFormatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch {
+      return undefined;
+    }
+    dateFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA time zone the runtime knows (e.g. "America/Los_Angeles").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  return timeZone.trim().length > 0 && dateFormatter(timeZone) !== undefined;
+}
+
+// ============================================================================
+// Calendar Days
+// ============================================================================
+
+/**
+ * Returns the calendar date of a timestamp in a time zone, as "YYYY-MM-DD".
+ *
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ *
+ * Days follow local midnight, so they may be 23 or 25 hours long across
+ * daylight saving changes. An unknown time zone falls back to UTC.
+ */
+export function localDate(ms: number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const formatter = timeZone === DEFAULT_TIME_ZONE ? undefined : dateFormatter(timeZone);
+  if (!formatter) {
+    return new Date(ms).toISOString().slice(0, 10);
+  }
+
+  const parts = formatter.formatToParts(new Date(ms));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((candidate) => candidate.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Checks whether two timestamps fall on the same calendar day in a time zone.
+ */
+export function isSameLocalDay(aMs: number, bMs: number, timeZone: string = DEFAULT_TIME_ZONE): boolean {
+  return localDate(aMs, timeZone) === localDate(bMs, timeZone);
+}
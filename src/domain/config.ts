@@ -0,0 +1,151 @@
+/**
+ * Engine configuration for the life-as-a-game system.
+ *
+ * This file defines the tunable values the pure engine reads (no IO, no env
+ * access). Callers resolve a config and pass it in; the defaults preserve the
+ * original cadence.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/time.md
+ * - docs/quests.md
+ * - docs/stats.md
+ *
+ * Non-goals (not included):
+ * - Reading environment variables or storage (belongs in the worker)
+ * - Per-quest tuning (belongs in quest definitions)
+ * - Narrative tuning
+ * - Storage caps and cookie settings (see src/config.ts)
+ */
+
+import type { Stats } from './state.js';
+import { DEFAULT_PACING_POLICY, validatePacingPolicy, type PacingPolicy } from './pacing.js';
+
+// ============================================================================
+// Engine Config
+// ============================================================================
+
+/**
+ * TimeThresholds: Coarse boundaries between TimeRange values, in milliseconds.
+ *
+ * Constraint: time.md - "Time comparisons should be coarse, not granular"
+ * Constraint: time.md - "Values are intentionally narrative, not calendrical. Durations exist only as coarse defaults; the meaning remains narrative."
+ *
+ * Elapsed time below recentMs is 'recent', below longGapMs is 'gap',
+ * and anything longer is 'long_gap'. Momentum uses the same boundaries.
+ */
+export interface TimeThresholds {
+  /** Upper bound of the 'recent' range */
+  recentMs: number;
+  /** Upper bound of the 'gap' range (must be greater than recentMs) */
+  longGapMs: number;
+}
+
+/**
+ * EngineConfig: Tunable values injected into engine transitions and selection.
+ *
+ * Constraint: time.md - "Precision increases pressure. Ambiguity preserves autonomy."
+ * Constraint: quests.md - "Fewer choices are preferred"
+ *
+ * Lets a deployment or a single player run a gentler cadence without
+ * changing the meaning of the ranges themselves.
+ */
+export interface EngineConfig {
+  /** Boundaries used to compute TimeRange and MomentumState */
+  timeThresholdsMs: TimeThresholds;
+  /** Most quests offered at once by getAvailableQuests */
+  maxQuestChoices: number;
+  /** Stats a new character starts with */
+  initialStats: Stats;
+  /** When getAvailableQuests suggests rest instead of new quests */
+  pacing: PacingPolicy;
+}
+
+/**
+ * EngineConfigOverrides: Partial config layered over a base config.
+ *
+ * Used for per-player overrides; omitted values keep the base value.
+ */
+export interface EngineConfigOverrides {
+  timeThresholdsMs?: Partial<TimeThresholds>;
+}
+
+/**
+ * DEFAULT_ENGINE_CONFIG: The original coarse cadence (~2 days recent, ~7 days long gap),
+ * three quest choices, the original starting stats, and one quest per day.
+ *
+ * Constraint: time.md - "Durations exist only as coarse defaults; the meaning remains narrative."
+ * Constraint: quests.md - "Fewer choices are preferred" (max 3)
+ */
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  timeThresholdsMs: {
+    recentMs: 2 * 24 * 60 * 60 * 1000, // ~2 days
+    longGapMs: 7 * 24 * 60 * 60 * 1000, // ~7 days
+  },
+  maxQuestChoices: 3,
+  initialStats: { agency: 5, courage: 3, order: 4 },
+  pacing: DEFAULT_PACING_POLICY,
+};
+
+// ============================================================================
+// Config Resolution
+// ============================================================================
+
+/**
+ * Lists what is wrong with a config (empty when valid).
+ *
+ * Time boundaries must be positive and ordered, at least one quest must be
+ * offered, starting stats must be non-negative integers, and the pacing
+ * policy must be valid.
+ * Pure function: no side effects, deterministic.
+ */
+export function validateEngineConfig(config: EngineConfig): string[] {
+  const issues: string[] = [];
+  const { recentMs, longGapMs } = config.timeThresholdsMs;
+
+  if (!Number.isFinite(recentMs) || recentMs <= 0) {
+    issues.push('timeThresholdsMs.recentMs must be a positive number');
+  }
+  if (!Number.isFinite(longGapMs) || longGapMs <= recentMs) {
+    issues.push('timeThresholdsMs.longGapMs must be greater than recentMs');
+  }
+  if (!Number.isInteger(config.maxQuestChoices) || config.maxQuestChoices < 1) {
+    issues.push('maxQuestChoices must be a positive integer');
+  }
+  for (const [stat, value] of Object.entries(config.initialStats)) {
+    if (!Number.isInteger(value) || value < 0) {
+      issues.push(`initialStats.${stat} must be a non-negative integer`);
+    }
+  }
+  issues.push(...validatePacingPolicy(config.pacing));
+
+  return issues;
+}
+
+/**
+ * Checks that a config is valid (see validateEngineConfig).
+ */
+export function isValidEngineConfig(config: EngineConfig): boolean {
+  return validateEngineConfig(config).length === 0;
+}
+
+/**
+ * Layers overrides over a base config.
+ *
+ * Returns the base config unchanged when there are no overrides or when the
+ * result would be invalid (an override never breaks range ordering).
+ */
+export function withEngineOverrides(
+  base: EngineConfig,
+  overrides?: EngineConfigOverrides
+): EngineConfig {
+  if (!overrides?.timeThresholdsMs) {
+    return base;
+  }
+
+  const resolved: EngineConfig = {
+    ...base,
+    timeThresholdsMs: { ...base.timeThresholdsMs, ...overrides.timeThresholdsMs },
+  };
+
+  return isValidEngineConfig(resolved) ? resolved : base;
+}
@@ -30,8 +30,13 @@ import {
   applyTimeTick,
   applyQuestStarted,
   applyQuestCompleted,
+  applyQuestSetAside,
 } from './transitions.js';
 import { chooseQuests } from './rules.js';
+import { suggestRest } from './pacing.js';
+import { DEFAULT_TIME_ZONE } from './calendar.js';
+import { DEFAULT_ENGINE_CONFIG } from './config.js';
+import type { EngineConfig } from './config.js';
 
 // ============================================================================
 // Quest Catalog Interface
@@ -62,6 +67,25 @@ export interface QuestCatalog {
   listAll?(): QuestNodeWithAvailability[];
 }
 
+// ============================================================================
+// Active Quest Queries
+// ============================================================================
+
+/**
+ * Checks whether a quest is the one currently underway.
+ *
+ * Constraint: quests.md - "Quests are lived, not completed"
+ * Constraint: quests.md - "A quest represents a deliberate decision to act differently than default"
+ *
+ * A quest is in progress only between its start and its completion.
+ */
+export function isQuestInProgress(
+  state: CharacterState,
+  questId: QuestId
+): boolean {
+  return state.activeQuest?.questId === questId;
+}
+
 // ============================================================================
 // Engine Functions
 // ============================================================================
@@ -74,12 +98,14 @@ export interface QuestCatalog {
  *
  * Applies time drift, computes TimeRange, and emits time-related events.
  * Does not modify stats (stagnation over decay).
+ * Time range boundaries come from config (defaults to DEFAULT_ENGINE_CONFIG).
  */
 export function tick(
   state: CharacterState,
-  nowMs: number
+  nowMs: number,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
 ): { state: CharacterState; events: EngineEvent[] } {
-  return applyTimeTick(state, nowMs);
+  return applyTimeTick(state, nowMs, config);
 }
 
 /**
@@ -90,7 +116,11 @@ export function tick(
  * Constraint: time.md - "Track last meaningful action, not last login"
  *
  * Looks up the quest from the catalog and applies the quest started transition.
- * Starting a quest updates lastMeaningfulActionMs and emits QuestStartedEvent.
+ * Starting a quest updates lastMeaningfulActionMs, records it as the active quest,
+ * and emits QuestStartedEvent.
+ *
+ * Only one quest can be underway at a time. While a quest is active, starting
+ * any quest (including the active one) leaves state unchanged and emits no events.
  */
 export function startQuest(
   state: CharacterState,
@@ -106,7 +136,13 @@ export function startQuest(
     return { state, events: [] };
   }
 
-  return applyQuestStarted(state, questId, quest.type, nowMs);
+  if (state.activeQuest) {
+    // A quest is already underway - the player resumes it rather than stacking another
+    // Constraint: quests.md - "One meaningful quest can define a day"
+    return { state, events: [] };
+  }
+
+  return applyQuestStarted(state, quest, nowMs);
 }
 
 /**
@@ -119,6 +155,10 @@ export function startQuest(
  *
  * Looks up the quest from the catalog and applies quest consequences.
  * Applies stat changes, flag updates, unlocks quests, and emits corresponding events.
+ *
+ * Only the active quest can be completed. Completing a quest that was never
+ * started leaves state unchanged and emits no events; callers can check
+ * isQuestInProgress() to redirect the player to start it first.
  */
 export function completeQuest(
   state: CharacterState,
@@ -134,9 +174,49 @@ export function completeQuest(
     return { state, events: [] };
   }
 
+  if (!isQuestInProgress(state, questId)) {
+    // Quest was not started - consequences only follow a real initiation
+    // Constraint: identity_arc.md - "No mechanic may bypass real-world initiation"
+    return { state, events: [] };
+  }
+
   return applyQuestCompleted(state, quest, nowMs);
 }
 
+/**
+ * Sets a started quest aside (lets it go without completing it).
+ *
+ * Constraint: quests.md - "Avoidance unlocks different paths"
+ * Constraint: quests.md - "Avoidance is treated as data"
+ * Constraint: identity_arc.md - "Avoidance does not reduce stats"
+ *
+ * Looks up the quest from the catalog and applies the set aside transition.
+ * Clears the active quest and applies any avoidance consequences declared on the quest.
+ *
+ * Only the active quest can be set aside. Setting aside a quest that is not
+ * underway leaves state unchanged and emits no events.
+ */
+export function setAsideQuest(
+  state: CharacterState,
+  questId: QuestId,
+  catalog: QuestCatalog,
+  nowMs: number
+): { state: CharacterState; events: EngineEvent[] } {
+  const quest = catalog.getQuestById(questId);
+  if (!quest) {
+    // Quest not found - return state unchanged, emit no events
+    // Constraint: ethos.md - "The system does not command. It does not beg. It does not manipulate."
+    return { state, events: [] };
+  }
+
+  if (!isQuestInProgress(state, questId)) {
+    // Nothing underway to let go of
+    return { state, events: [] };
+  }
+
+  return applyQuestSetAside(state, quest, nowMs);
+}
+
 /**
  * Gets available quests for the current state.
  *
@@ -146,26 +226,38 @@ export function completeQuest(
  * Constraint: quests.md - "Time influences relevance"
  * Constraint: quests.md - "Fewer choices are preferred"
  * Constraint: quests.md - "Choice scarcity increases intention"
+ * Constraint: quests.md - "One meaningful quest can define a day"
  *
- * Enumerates all quests from the catalog and applies the full selection pipeline:
- * filters by availability (stats/flags), ranks by time relevance, and selects
- * a small set of choices (max 3) with variety across quest types.
+ * Applies the pacing policy first (config.pacing): when it asks for rest, no
+ * quests are offered and a rest_suggested event is emitted instead. Otherwise
+ * enumerates all quests from the catalog and applies the full selection pipeline:
+ * filters by availability (stats/flags/repeatability), ranks by time relevance, and selects
+ * a small set of choices (config.maxQuestChoices, 3 by default) with variety across quest types.
+ * timeZone is the player's time zone, used by the daily rest.
  */
 export function getAvailableQuests(
   state: CharacterState,
   catalog: QuestCatalog,
-  nowMs: number
-): QuestNodeWithAvailability[] {
+  nowMs: number,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { quests: QuestNodeWithAvailability[]; events: EngineEvent[] } {
+  // Constraint: quests.md - "Silence is allowed between quests"
+  const rest = suggestRest(state, nowMs, config.pacing, timeZone);
+  if (rest) {
+    return { quests: [], events: [rest] };
+  }
+
   // Enumerate quests from catalog
   const allQuests = catalog.listAll?.() ?? [];
 
-  // If no quests or listAll not available, return empty array
+  // If no quests or listAll not available, offer nothing
   if (allQuests.length === 0) {
-    return [];
+    return { quests: [], events: [] };
   }
 
   // Apply full selection pipeline: filter → rank → select
-  // Constraint: quests.md - "Fewer choices are preferred" (max 3)
-  return chooseQuests(state, allQuests, nowMs, 3);
+  // Constraint: quests.md - "Fewer choices are preferred"
+  return { quests: chooseQuests(state, allQuests, nowMs, config.maxQuestChoices), events: [] };
 }
 
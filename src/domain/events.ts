@@ -19,7 +19,7 @@
  * - UI strings or presentation
  */
 
-import type { StatKey, TimeRange } from './state.js';
+import type { MomentumState, StatKey, TimeRange } from './state.js';
 import type { QuestId, QuestType, Flag } from './quests.js';
 
 // ============================================================================
@@ -27,15 +27,20 @@ import type { QuestId, QuestType, Flag } from './quests.js';
 // ============================================================================
 
 /**
- * NarrativeTone: Optional tone for narrative context.
+ * NarrativeTone: The one tone model for narrative, from event notes to receipts.
  *
  * Constraint: time.md - "Narrative references to time must be: Observational, Calm, Non-accusatory, Non-alarmist"
  * Constraint: ethos.md - "Failure is narrative, not punishment"
  * Constraint: time.md - "Never surface guilt through language"
  *
- * Narrative is minimal and optional. Events are semantic; narrative is supplemental.
+ * - calm: steady and unhurried
+ * - warm: acknowledges a step taken
+ * - observational: notes what changed, without comment
+ *
+ * A tone on an event's narrative note is carried into its summary, its
+ * receipt and the share page. There is deliberately no urgent or firm tone.
  */
-export type NarrativeTone = 'observational' | 'calm' | 'neutral' | 'acknowledging';
+export type NarrativeTone = 'calm' | 'warm' | 'observational';
 
 /**
  * NarrativeNote: Optional minimal narrative context for events.
@@ -96,6 +101,26 @@ export interface QuestCompletedEvent {
   narrative?: NarrativeNote;
 }
 
+/**
+ * QuestSetAsideEvent: Emitted when a started quest is let go.
+ *
+ * Constraint: quests.md - "Avoidance is treated as data"
+ * Constraint: quests.md - "Avoidance is acknowledged, not punished" (for Courage)
+ * Constraint: ethos.md - "Avoidance, delay, and stagnation are treated as signals, not sins"
+ *
+ * Records that the player chose to set a quest down. This is informational,
+ * never a failure state; any avoidance consequences are emitted as separate events.
+ */
+export interface QuestSetAsideEvent {
+  type: 'quest_set_aside';
+  /** Quest ID that was set aside */
+  questId: QuestId;
+  /** Quest type (agency, courage, order) */
+  questType: QuestType;
+  /** Optional narrative note */
+  narrative?: NarrativeNote;
+}
+
 /**
  * StatChangedEvent: Emitted when stat deltas are applied.
  *
@@ -173,6 +198,24 @@ export interface TimeContextChangedEvent {
   narrative?: NarrativeNote;
 }
 
+/**
+ * MomentumChangedEvent: Emitted when the momentum label changes.
+ *
+ * Constraint: time.md - "Momentum emerges from recent initiation, not streaks"
+ * Constraint: time.md - "Momentum is implicit, never shown as a number"
+ * Constraint: time.md - "Gaps increase perceived friction"
+ *
+ * Records label transitions only (e.g., present → fading, absent → present).
+ * Fading momentum is information for tone, never a warning.
+ */
+export interface MomentumChangedEvent {
+  type: 'momentum_changed';
+  /** Previous momentum label */
+  previousMomentum: MomentumState;
+  /** New momentum label */
+  newMomentum: MomentumState;
+}
+
 /**
  * ReEntrySuggestedEvent: Emitted when re-entry quests should be surfaced.
  *
@@ -191,6 +234,24 @@ export interface ReEntrySuggestedEvent {
   narrative?: NarrativeNote;
 }
 
+/**
+ * RestSuggestedEvent: Emitted by quest selection when the pacing policy asks for rest.
+ *
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ * Constraint: quests.md - "Silence is allowed between quests"
+ * Constraint: time.md - "Precision increases pressure. Ambiguity preserves autonomy."
+ *
+ * Replaces new quest offers until the policy allows another. Names the
+ * policy only; how long remains is never surfaced.
+ */
+export interface RestSuggestedEvent {
+  type: 'rest_suggested';
+  /** Pacing policy asking for rest */
+  policy: 'daily_rest' | 'rolling_rest';
+  /** Optional narrative note (must be calm and non-judgmental) */
+  narrative?: NarrativeNote;
+}
+
 /**
  * EngineEvent: Union type of all engine events.
  *
@@ -203,9 +264,12 @@ export interface ReEntrySuggestedEvent {
 export type EngineEvent =
   | QuestStartedEvent
   | QuestCompletedEvent
+  | QuestSetAsideEvent
   | StatChangedEvent
   | FlagChangedEvent
   | QuestsUnlockedEvent
   | TimeContextChangedEvent
-  | ReEntrySuggestedEvent;
+  | MomentumChangedEvent
+  | ReEntrySuggestedEvent
+  | RestSuggestedEvent;
 
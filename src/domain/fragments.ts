@@ -0,0 +1,91 @@
+/**
+ * Narrative fragment registry: quest-specific copy looked up by messageKey.
+ *
+ * This file implements pure helpers that collect the narrative fragments
+ * quests declare, key them for NarrativeNote.messageKey, and resolve a note
+ * back to its fragment. Events carry only the key; the copy stays here.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/ethos.md
+ * - docs/quests.md
+ * - docs/time.md
+ *
+ * Non-goals (not included):
+ * - Choosing between events (see narrative.ts)
+ * - Localization
+ */
+
+import type { NarrativeNote } from './events.js';
+import type { QuestId, QuestNode, QuestNarrativeFragment, QuestNarrativeMoment } from './quests.js';
+
+// ============================================================================
+// Message Keys
+// ============================================================================
+
+/**
+ * NarrativeFragmentRegistry: Fragments by messageKey.
+ */
+export type NarrativeFragmentRegistry = ReadonlyMap<string, QuestNarrativeFragment>;
+
+/**
+ * A registry with no fragments (every event uses generic copy).
+ */
+export const EMPTY_FRAGMENT_REGISTRY: NarrativeFragmentRegistry = new Map();
+
+const QUEST_NARRATIVE_MOMENTS: QuestNarrativeMoment[] = ['started', 'completed', 'setAside'];
+
+/**
+ * Builds the messageKey for one moment of a quest (e.g. "quest.v1-order-remove-friction.completed").
+ */
+export function questMessageKey(questId: QuestId, moment: QuestNarrativeMoment): string {
+  return `quest.${questId}.${moment}`;
+}
+
+/**
+ * Returns the narrative note for a quest moment, or undefined when the quest
+ * declares no fragment for it (the event then uses generic copy).
+ * The note carries the fragment's tone, so summaries and receipts keep it.
+ *
+ * Constraint: time.md - "Narrative acknowledges closure neutrally"
+ */
+export function questNarrativeNote(quest: QuestNode, moment: QuestNarrativeMoment): NarrativeNote | undefined {
+  const fragment = quest.narrative?.[moment];
+  if (!fragment) {
+    return undefined;
+  }
+  return {
+    tone: fragment.tone ?? (moment === 'completed' ? 'warm' : 'calm'),
+    messageKey: questMessageKey(quest.id, moment),
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Collects every fragment the given quests declare, keyed by questMessageKey.
+ */
+export function buildFragmentRegistry(quests: QuestNode[]): NarrativeFragmentRegistry {
+  const registry = new Map<string, QuestNarrativeFragment>();
+  for (const quest of quests) {
+    for (const moment of QUEST_NARRATIVE_MOMENTS) {
+      const fragment = quest.narrative?.[moment];
+      if (fragment) {
+        registry.set(questMessageKey(quest.id, moment), fragment);
+      }
+    }
+  }
+  return registry;
+}
+
+/**
+ * Resolves an event's narrative note to its fragment.
+ * Returns undefined for events without a note or with an unknown key.
+ */
+export function resolveFragment(
+  registry: NarrativeFragmentRegistry,
+  note: NarrativeNote | undefined
+): QuestNarrativeFragment | undefined {
+  return note ? registry.get(note.messageKey) : undefined;
+}
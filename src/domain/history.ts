@@ -0,0 +1,123 @@
+/**
+ * Event history folding for the life-as-a-game system.
+ *
+ * This file rebuilds CharacterState from an ordered log of engine events by
+ * replaying the quest lifecycle events through the pure transitions, ticking
+ * time forward to each one first, as the live engine does.
+ * It is the read side of the event log kept by PlayerStateDO.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/ethos.md
+ * - docs/quests.md
+ * - docs/time.md
+ *
+ * Non-goals (not included):
+ * - Storage of the log or snapshots (belongs in infra)
+ * - Analytics or reporting over history
+ * - Validating that logged events were legal when written
+ */
+
+import type { CharacterState } from './state.js';
+import type { QuestId } from './quests.js';
+import type { EngineEvent } from './events.js';
+import type { QuestCatalog } from './engine.js';
+import { DEFAULT_ENGINE_CONFIG, type EngineConfig, type TimeThresholds } from './config.js';
+import {
+  applyTimeTick,
+  applyQuestStarted,
+  applyQuestCompleted,
+  applyQuestSetAside,
+} from './transitions.js';
+
+// ============================================================================
+// Event Records
+// ============================================================================
+
+/**
+ * EventRecord: One engine event as stored in the player's ordered log.
+ *
+ * Constraint: ethos.md - "Progress is earned only through real action in the real world"
+ *
+ * seq orders the log; atMs is when the transition that produced the event ran.
+ * questId is the quest the transition acted on, so consequence events
+ * (stat_changed, flag_changed, ...) can be attributed. timeThresholdsMs are
+ * the thresholds the transition ticked with, so a fold is not affected by
+ * later changes to the player's engine overrides.
+ */
+export interface EventRecord {
+  /** Position in the log (strictly increasing) */
+  seq: number;
+  /** When the producing transition ran, in milliseconds */
+  atMs: number;
+  /** Quest the producing transition acted on (absent for time ticks) */
+  questId?: QuestId;
+  /** The engine event itself */
+  event: EngineEvent;
+  /** Time thresholds in effect when the transition ran (absent in older logs) */
+  timeThresholdsMs?: TimeThresholds;
+}
+
+// ============================================================================
+// Folding
+// ============================================================================
+
+/**
+ * Rebuilds state by replaying logged events on top of a base state.
+ *
+ * Constraint: quests.md - "Every quest must change something"
+ * Constraint: time.md - "Track last meaningful action, not last login"
+ *
+ * Only lifecycle events drive the fold: quest_started, quest_completed and
+ * quest_set_aside are re-applied through their transitions at their logged
+ * time, which re-derives every consequence event. Live transitions run on
+ * state ticked to their time, so the fold ticks to each lifecycle event's
+ * atMs before applying it, with the thresholds recorded on the event (config
+ * for records without them); range, momentum and completion ranges then
+ * match the stored state. Consequence and time
+ * events are skipped; callers tick the result to the present.
+ * Quests missing from the catalog are skipped (graceful, no throws).
+ * Records must be in seq order.
+ */
+export function foldEvents(
+  base: CharacterState,
+  records: EventRecord[],
+  catalog: QuestCatalog,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): CharacterState {
+  let state = base;
+
+  for (const { atMs, event, timeThresholdsMs } of records) {
+    const tickConfig = timeThresholdsMs ? { ...config, timeThresholdsMs } : config;
+    switch (event.type) {
+      case 'quest_started': {
+        const quest = catalog.getQuestById(event.questId);
+        if (quest) {
+          state = applyTimeTick(state, atMs, tickConfig).state;
+          state = applyQuestStarted(state, quest, atMs).state;
+        }
+        break;
+      }
+      case 'quest_completed': {
+        const quest = catalog.getQuestById(event.questId);
+        if (quest) {
+          state = applyTimeTick(state, atMs, tickConfig).state;
+          state = applyQuestCompleted(state, quest, atMs).state;
+        }
+        break;
+      }
+      case 'quest_set_aside': {
+        const quest = catalog.getQuestById(event.questId);
+        if (quest) {
+          state = applyTimeTick(state, atMs, tickConfig).state;
+          state = applyQuestSetAside(state, quest, atMs).state;
+        }
+        break;
+      }
+      default:
+        // Derived by the transitions above or by the next tick
+        break;
+    }
+  }
+
+  return state;
+}
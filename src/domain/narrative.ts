@@ -10,99 +10,242 @@
  * - docs/quests.md
  */
 
-import type { EngineEvent } from './events.js';
+import type { EngineEvent, NarrativeTone } from './events.js';
 import type { CharacterState, StatKey } from './state.js';
 import type { QuestType } from './quests.js';
+import { EMPTY_FRAGMENT_REGISTRY, resolveFragment, type NarrativeFragmentRegistry } from './fragments.js';
 
 /**
- * NarrativeTone: Tone for narrative presentation.
+ * NarrativeLimits: Character limits for every piece of player-facing narrative.
  */
-export type NarrativeTone = 'calm' | 'warm' | 'firm';
+export const NARRATIVE_LIMITS = {
+  title: 32,
+  line: 140,
+  shareText: 180,
+} as const;
+
+/**
+ * Most secondary lines added under a primary summary.
+ *
+ * Constraint: quests.md - "Fewer choices are preferred" (say little, say it once)
+ */
+export const MAX_SECONDARY_LINES = 2;
+
+/**
+ * NarrativeLine: A short title and line for something that also happened.
+ */
+export interface NarrativeLine {
+  title: string; // <= 32 chars
+  line: string; // <= 140 chars
+}
 
 /**
  * NarrativeSummary: Minimal player-facing narrative response.
+ * tone uses the same NarrativeTone as event notes (see events.ts).
  */
 export interface NarrativeSummary {
   tone: NarrativeTone;
   title: string; // <= 32 chars
   line: string; // <= 140 chars
   shareText?: string; // <= 180 chars, only for quest_completed
+  /** Up to MAX_SECONDARY_LINES other things the same events changed (omitted when none) */
+  secondary?: NarrativeLine[];
 }
 
 /**
- * Summarizes events into a narrative response.
+ * Events that can lead a summary, highest priority first.
+ */
+const PRIMARY_PRIORITY: EngineEvent['type'][] = [
+  'quest_completed',
+  'quest_started',
+  'quest_set_aside',
+  'rest_suggested',
+  're_entry_suggested',
+  'time_context_changed',
+  'stat_changed',
+  'flag_changed',
+];
+
+/**
+ * Events that can add a secondary line, highest priority first.
+ * stat_changed is left out: quest lines already name the stat that grows.
+ */
+const SECONDARY_PRIORITY: EngineEvent['type'][] = [
+  're_entry_suggested',
+  'momentum_changed',
+  'time_context_changed',
+  'quests_unlocked',
+  'flag_changed',
+];
+
+/**
+ * Summarizes events into a narrative response: one primary summary, plus up
+ * to MAX_SECONDARY_LINES secondary lines for other events in the same batch.
  * Returns null if events are empty.
  *
- * Priority order:
+ * Quest events whose narrative note resolves in `fragments` use the quest's
+ * own copy; everything else uses the generic copy for its event type.
+ * A tone on the chosen event's narrative note is kept; the summary's own
+ * tone is only a default for events without one.
+ *
+ * Primary priority order:
  * 1. quest_completed
  * 2. quest_started
- * 3. re_entry_suggested
- * 4. time_context_changed
- * 5. stat_changed / flag_changed (lowest priority)
+ * 3. quest_set_aside
+ * 4. rest_suggested
+ * 5. re_entry_suggested
+ * 6. time_context_changed
+ * 7. stat_changed / flag_changed (lowest priority)
+ *
+ * Secondary lines follow SECONDARY_PRIORITY. A line repeating a title
+ * already shown (e.g. two events that both open a path) is dropped, and
+ * every line stays within NARRATIVE_LIMITS.
  */
 export function summarize(
   events: EngineEvent[],
-  state: CharacterState
+  state: CharacterState,
+  fragments: NarrativeFragmentRegistry = EMPTY_FRAGMENT_REGISTRY
 ): NarrativeSummary | null {
-  if (events.length === 0) {
+  const primaryEvent = findByPriority(events, PRIMARY_PRIORITY)[0];
+  const summary = primaryEvent && summarizeEvent(primaryEvent, fragments);
+  if (!primaryEvent || !summary) {
     return null;
   }
 
-  // Find highest priority event
-  const questCompleted = events.find((e) => e.type === 'quest_completed');
-  if (questCompleted && questCompleted.type === 'quest_completed') {
-    return summarizeQuestCompleted(questCompleted);
-  }
+  const primary = withNoteTone(summary, primaryEvent);
+  const shownTitles = new Set([primary.title]);
+  const secondary: NarrativeLine[] = [];
 
-  const questStarted = events.find((e) => e.type === 'quest_started');
-  if (questStarted && questStarted.type === 'quest_started') {
-    return summarizeQuestStarted(questStarted);
+  for (const event of findByPriority(events, SECONDARY_PRIORITY)) {
+    if (event === primaryEvent || secondary.length === MAX_SECONDARY_LINES) {
+      continue;
+    }
+    const line = summarizeSecondary(event);
+    if (line && !shownTitles.has(line.title) && fitsLimits(line)) {
+      shownTitles.add(line.title);
+      secondary.push(line);
+    }
   }
 
-  const reEntrySuggested = events.find((e) => e.type === 're_entry_suggested');
-  if (reEntrySuggested && reEntrySuggested.type === 're_entry_suggested') {
-    return summarizeReEntrySuggested(reEntrySuggested);
-  }
+  return secondary.length > 0 ? { ...primary, secondary } : primary;
+}
 
-  const timeContextChanged = events.find(
-    (e) => e.type === 'time_context_changed'
-  );
-  if (
-    timeContextChanged &&
-    timeContextChanged.type === 'time_context_changed'
-  ) {
-    return summarizeTimeContextChanged(timeContextChanged);
-  }
+/**
+ * Lists the events whose type is in `priority`, ordered by that priority
+ * (events of the same type keep their order).
+ */
+function findByPriority(events: EngineEvent[], priority: EngineEvent['type'][]): EngineEvent[] {
+  return priority.flatMap((type) => events.filter((event) => event.type === type));
+}
+
+/**
+ * Checks that a line fits the title and line limits.
+ */
+function fitsLimits(line: NarrativeLine): boolean {
+  return line.title.length <= NARRATIVE_LIMITS.title && line.line.length <= NARRATIVE_LIMITS.line;
+}
 
-  // stat_changed and flag_changed are lowest priority
-  // Only surface if no other events exist
-  const statChanged = events.find((e) => e.type === 'stat_changed');
-  if (statChanged && statChanged.type === 'stat_changed') {
-    return summarizeStatChanged(statChanged);
+/**
+ * Summarizes one event on its own, or returns null for events that are
+ * never summarized as the primary narrative.
+ */
+function summarizeEvent(event: EngineEvent, fragments: NarrativeFragmentRegistry): NarrativeSummary | null {
+  switch (event.type) {
+    case 'quest_completed':
+      return summarizeQuestCompleted(event, fragments);
+    case 'quest_started':
+      return summarizeQuestStarted(event, fragments);
+    case 'quest_set_aside':
+      return summarizeQuestSetAside(event, fragments);
+    case 'rest_suggested':
+      return summarizeRestSuggested(event);
+    case 're_entry_suggested':
+      return summarizeReEntrySuggested(event);
+    case 'time_context_changed':
+      return summarizeTimeContextChanged(event);
+    case 'stat_changed':
+      return summarizeStatChanged(event);
+    case 'flag_changed':
+      return summarizeFlagChanged(event);
+    default:
+      return null;
   }
+}
 
-  const flagChanged = events.find((e) => e.type === 'flag_changed');
-  if (flagChanged && flagChanged.type === 'flag_changed') {
-    return summarizeFlagChanged(flagChanged);
+/**
+ * Summarizes an event as a secondary line, or returns null when it adds
+ * nothing worth saying next to the primary summary.
+ *
+ * Constraint: time.md - "Momentum is felt, not counted"
+ * Constraint: time.md - "Non-alarmist"
+ */
+function summarizeSecondary(event: EngineEvent): NarrativeLine | null {
+  switch (event.type) {
+    case 'quests_unlocked':
+      return {
+        title: 'Path opened',
+        line: `Something new is now within reach.`,
+      };
+    case 'momentum_changed':
+      // Only a return of momentum is mentioned; fading is left to tone
+      return event.newMomentum === 'present'
+        ? { title: 'Momentum building', line: `Starting again sets things in motion.` }
+        : null;
+    case 'flag_changed':
+      // Cleared flags alone change nothing the player needs to hear about
+      return event.flagsSet && event.flagsSet.length > 0 ? toLine(summarizeFlagChanged(event)) : null;
+    case 're_entry_suggested':
+      return toLine(summarizeReEntrySuggested(event));
+    case 'time_context_changed':
+      return toLine(summarizeTimeContextChanged(event));
+    default:
+      return null;
   }
+}
 
-  // Fallback (shouldn't happen, but TypeScript requires it)
-  return null;
+/**
+ * Keeps only the title and line of a summary.
+ */
+function toLine(summary: NarrativeSummary): NarrativeLine {
+  return { title: summary.title, line: summary.line };
+}
+
+/**
+ * Keeps the tone of an event's narrative note, when it has one.
+ *
+ * Constraint: time.md - "Narrative references to time must be: Observational, Calm, Non-accusatory, Non-alarmist"
+ */
+function withNoteTone(summary: NarrativeSummary, event: EngineEvent): NarrativeSummary {
+  const note = 'narrative' in event ? event.narrative : undefined;
+  return note ? { ...summary, tone: note.tone } : summary;
 }
 
 /**
  * Summarizes a quest completed event.
+ * A quest fragment without shareText keeps the generic share text.
  */
 function summarizeQuestCompleted(
-  event: Extract<EngineEvent, { type: 'quest_completed' }>
+  event: Extract<EngineEvent, { type: 'quest_completed' }>,
+  fragments: NarrativeFragmentRegistry
 ): NarrativeSummary {
   const questTypeLabel = getQuestTypeLabel(event.questType);
+  const shareText = `Completed a ${questTypeLabel} quest. Small steps compound.`;
+
+  const fragment = resolveFragment(fragments, event.narrative);
+  if (fragment) {
+    return {
+      tone: 'warm',
+      title: fragment.title,
+      line: fragment.line,
+      shareText: fragment.shareText ?? shareText,
+    };
+  }
 
   return {
     tone: 'warm',
     title: 'Action completed',
     line: `You took a step. ${questTypeLabel} grows through action, not planning.`,
-    shareText: `Completed a ${questTypeLabel} quest. Small steps compound.`,
+    shareText,
   };
 }
 
@@ -110,9 +253,13 @@ function summarizeQuestCompleted(
  * Summarizes a quest started event.
  */
 function summarizeQuestStarted(
-  event: Extract<EngineEvent, { type: 'quest_started' }>
+  event: Extract<EngineEvent, { type: 'quest_started' }>,
+  fragments: NarrativeFragmentRegistry
 ): NarrativeSummary {
-  const questTypeLabel = getQuestTypeLabel(event.questType);
+  const fragment = resolveFragment(fragments, event.narrative);
+  if (fragment) {
+    return { tone: 'calm', title: fragment.title, line: fragment.line };
+  }
 
   return {
     tone: 'calm',
@@ -121,6 +268,46 @@ function summarizeQuestStarted(
   };
 }
 
+/**
+ * Summarizes a quest set aside event.
+ */
+function summarizeQuestSetAside(
+  event: Extract<EngineEvent, { type: 'quest_set_aside' }>,
+  fragments: NarrativeFragmentRegistry
+): NarrativeSummary {
+  const fragment = resolveFragment(fragments, event.narrative);
+  if (fragment) {
+    return { tone: 'calm', title: fragment.title, line: fragment.line };
+  }
+
+  return {
+    tone: 'calm',
+    title: 'Set aside',
+    line: `You let this one rest. Nothing is lost. Another angle will come.`,
+  };
+}
+
+/**
+ * Summarizes a rest suggested event.
+ */
+function summarizeRestSuggested(
+  event: Extract<EngineEvent, { type: 'rest_suggested' }>
+): NarrativeSummary {
+  if (event.policy === 'daily_rest') {
+    return {
+      tone: 'calm',
+      title: 'Rest for today',
+      line: `You've already taken a step today. Come back tomorrow for your next quest.`,
+    };
+  }
+
+  return {
+    tone: 'calm',
+    title: 'Rest for now',
+    line: `You've already taken a step. Let it settle; your next quest will be here later.`,
+  };
+}
+
 /**
  * Summarizes a re-entry suggested event.
  */
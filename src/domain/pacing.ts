@@ -0,0 +1,129 @@
+/**
+ * Pacing policies: when the engine suggests rest instead of a new quest.
+ *
+ * This file implements pure functions that decide whether a player who has
+ * just acted should be offered another quest now, or be invited to rest.
+ * Rest is a suggestion surfaced as an event, never a penalty.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/quests.md
+ * - docs/time.md
+ * - docs/ethos.md
+ *
+ * Non-goals (not included):
+ * - Storing or detecting the player's time zone
+ * - Per-quest cooldowns (see isQuestRepeatReady in rules.ts)
+ * - Narrative copy (see narrative.ts)
+ */
+
+import type { CharacterState } from './state.js';
+import type { RestSuggestedEvent } from './events.js';
+import { DEFAULT_TIME_ZONE, localDate } from './calendar.js';
+
+// ============================================================================
+// Pacing Policies
+// ============================================================================
+
+/**
+ * PacingPolicy: How often a player is offered a new quest.
+ *
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ * Constraint: quests.md - "Completing many quests quickly is a smell"
+ * Constraint: quests.md - "Silence is allowed between quests"
+ *
+ * - daily_rest: after a completion, rest until the player's next local day
+ * - rolling_rest: after a completion, rest until windowMs has passed
+ * - none: never suggest rest (quest cooldowns still apply)
+ */
+export type PacingPolicy =
+  | { kind: 'daily_rest' }
+  | { kind: 'rolling_rest'; windowMs: number }
+  | { kind: 'none' };
+
+/**
+ * DEFAULT_PACING_POLICY: One quest per local day (the original cadence).
+ */
+export const DEFAULT_PACING_POLICY: PacingPolicy = { kind: 'daily_rest' };
+
+/**
+ * Lists what is wrong with a pacing policy (empty when valid).
+ *
+ * A rolling window must be a positive number of milliseconds.
+ */
+export function validatePacingPolicy(policy: PacingPolicy): string[] {
+  switch (policy.kind) {
+    case 'daily_rest':
+    case 'none':
+      return [];
+    case 'rolling_rest':
+      return Number.isFinite(policy.windowMs) && policy.windowMs > 0
+        ? []
+        : ['pacing.windowMs must be a positive number'];
+    default:
+      return ['pacing.kind must be one of: daily_rest, rolling_rest, none'];
+  }
+}
+
+// ============================================================================
+// Rest Evaluation
+// ============================================================================
+
+/**
+ * Checks if any quest was completed today (same calendar day in the player's time zone).
+ *
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ * Constraint: quests.md - "Silence is allowed between quests"
+ *
+ * Returns true if any completion timestamp falls on today's local date.
+ * The day runs from local midnight to local midnight (UTC by default).
+ */
+export function hasCompletedQuestToday(
+  state: CharacterState,
+  nowMs: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  const today = localDate(nowMs, timeZone);
+
+  return Object.values(state.completions ?? {}).some(
+    (record) => localDate(record.lastCompletedAtMs, timeZone) === today
+  );
+}
+
+/**
+ * Returns the time of the most recent completion, or undefined if none.
+ */
+function lastCompletionMs(state: CharacterState): number | undefined {
+  const times = Object.values(state.completions ?? {}).map((record) => record.lastCompletedAtMs);
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Decides whether a policy asks the player to rest right now.
+ *
+ * Constraint: time.md - "Precision increases pressure. Ambiguity preserves autonomy."
+ * Constraint: ethos.md - "The system does not command. It does not beg. It does not manipulate."
+ *
+ * Returns a rest_suggested event when the player should rest, or null when
+ * a new quest may be offered. The event names the policy, never how long
+ * is left. timeZone only matters for daily_rest.
+ * Pure function: no side effects, deterministic.
+ */
+export function suggestRest(
+  state: CharacterState,
+  nowMs: number,
+  policy: PacingPolicy = DEFAULT_PACING_POLICY,
+  timeZone: string = DEFAULT_TIME_ZONE
+): RestSuggestedEvent | null {
+  switch (policy.kind) {
+    case 'daily_rest':
+      return hasCompletedQuestToday(state, nowMs, timeZone) ? { type: 'rest_suggested', policy: 'daily_rest' } : null;
+    case 'rolling_rest': {
+      const lastMs = lastCompletionMs(state);
+      return lastMs !== undefined && nowMs - lastMs < policy.windowMs
+        ? { type: 'rest_suggested', policy: 'rolling_rest' }
+        : null;
+    }
+    case 'none':
+      return null;
+  }
+}
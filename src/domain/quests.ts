@@ -19,7 +19,8 @@
  * - Persistence concerns
  */
 
-import type { StatKey, TimeRange } from './state.js';
+import type { MomentumState, StatKey, TimeRange } from './state.js';
+import type { NarrativeTone } from './events.js';
 
 // ============================================================================
 // Quest Identity
@@ -123,6 +124,58 @@ export interface QuestConsequence {
   unlocksQuests?: QuestId[];
 }
 
+/**
+ * QuestAvoidanceConsequence: What changes when a started quest is set aside.
+ *
+ * Constraint: quests.md - "Avoidance unlocks different paths"
+ * Constraint: quests.md - "If a quest is avoided: Stats do not decrease, Narrative adapts, The system offers a different angle"
+ * Constraint: quests.md - "Avoidance is treated as data"
+ *
+ * Setting a quest aside may set or clear flags and unlock other quests.
+ * Stat changes are intentionally not representable: avoidance never costs stats.
+ */
+export interface QuestAvoidanceConsequence {
+  /** Flags to set (added to character flags) */
+  flagsToSet?: Flag[];
+  /** Flags to clear (removed from character flags) */
+  flagsToClear?: Flag[];
+  /** Quest IDs that become available after setting this quest aside */
+  unlocksQuests?: QuestId[];
+}
+
+/**
+ * QuestNarrativeFragment: Quest-specific copy for one moment of a quest.
+ *
+ * Constraint: time.md - "Never surface guilt through language"
+ * Constraint: quests.md - "Narrative context adjusts" (as part of quest consequences)
+ *
+ * Replaces the generic copy for its quest type. Limits match NarrativeSummary:
+ * title <= 32 chars, line <= 140 chars, shareText <= 180 chars (completion only).
+ * tone defaults to 'warm' for completion and 'calm' otherwise.
+ */
+export interface QuestNarrativeFragment {
+  tone?: NarrativeTone;
+  title: string;
+  line: string;
+  shareText?: string;
+}
+
+/**
+ * QuestNarrative: Optional fragments for the moments of a quest.
+ *
+ * Any moment left out uses the generic copy for the quest type.
+ */
+export interface QuestNarrative {
+  started?: QuestNarrativeFragment;
+  completed?: QuestNarrativeFragment;
+  setAside?: QuestNarrativeFragment;
+}
+
+/**
+ * QuestNarrativeMoment: A moment of a quest that can carry its own fragment.
+ */
+export type QuestNarrativeMoment = keyof QuestNarrative;
+
 /**
  * QuestNode: Complete quest structure matching docs/quests.md requirements.
  *
@@ -148,6 +201,10 @@ export interface QuestNode {
   reflection?: QuestReflection;
   /** Consequence of completion (state changes) */
   consequence: QuestConsequence;
+  /** Optional consequence of setting the quest aside (different path, never a penalty) */
+  avoidance?: QuestAvoidanceConsequence;
+  /** Optional quest-specific narrative fragments (generic copy otherwise) */
+  narrative?: QuestNarrative;
 }
 
 // ============================================================================
@@ -184,6 +241,43 @@ export interface FlagRequirement {
   blocked?: Flag[];
 }
 
+/**
+ * AvailabilityCondition: Composable, JSON-serializable predicate for quest gating.
+ *
+ * Constraint: quests.md - "Quests exist in a graph, where: Stats gate availability, Avoidance unlocks different paths, Time influences relevance"
+ * Constraint: quests.md - "Harder quests unlock through readiness, not grind"
+ * Constraint: time.md - "Time comparisons should be coarse, not granular"
+ *
+ * Conditions nest with all/any/not and bottom out in leaves that read stats,
+ * flags, the coarse time range, unlocks, and completion history.
+ * Plain data only (no functions) so quests stay serializable.
+ * Evaluation logic is not included (see rules.ts).
+ */
+export type AvailabilityCondition =
+  /** Every nested condition holds (an empty list always holds) */
+  | { kind: 'all'; conditions: AvailabilityCondition[] }
+  /** At least one nested condition holds (an empty list never holds) */
+  | { kind: 'any'; conditions: AvailabilityCondition[] }
+  /** The nested condition does not hold */
+  | { kind: 'not'; condition: AvailabilityCondition }
+  /** Stat is within bounds (inclusive; an omitted bound is not checked) */
+  | { kind: 'stat'; stat: StatKey; min?: number; max?: number }
+  /** Flag is present */
+  | { kind: 'has_flag'; flag: Flag }
+  /** Flag is absent */
+  | { kind: 'lacks_flag'; flag: Flag }
+  /** Current time range is one of the listed ranges */
+  | { kind: 'time_range'; in: TimeRange[] }
+  /** Quest has been unlocked by a predecessor */
+  | { kind: 'unlocked'; questId: QuestId }
+  /** Quest has been completed at least once */
+  | { kind: 'completed'; questId: QuestId }
+  /**
+   * Time elapsed since the quest was last completed is within bounds
+   * (inclusive; never holds if the quest was not completed)
+   */
+  | { kind: 'since_completed'; questId: QuestId; minMs?: number; maxMs?: number };
+
 /**
  * QuestAvailability: Conditions that determine if a quest is available.
  *
@@ -197,12 +291,21 @@ export interface FlagRequirement {
  *
  * All conditions must be satisfied for a quest to be available.
  * If any requirement is missing, that condition is not checked.
+ * The stats, flags, and requiresUnlock fields are shorthand for an 'all' of
+ * simple conditions; `when` expresses anything those fields cannot.
  */
 export interface QuestAvailability {
   /** Stat requirements (minimum thresholds) */
   stats?: StatRequirement;
   /** Flag requirements (must have, must not have) */
   flags?: FlagRequirement;
+  /**
+   * Quest stays hidden until another quest unlocks it (via unlocksQuests).
+   * If omitted or false, the quest does not need a predecessor.
+   */
+  requiresUnlock?: boolean;
+  /** Additional composable condition (combined with the fields above) */
+  when?: AvailabilityCondition;
   /**
    * Optional time-based relevance hints.
    * This is a hint for narrative relevance, not a hard gate.
@@ -211,6 +314,8 @@ export interface QuestAvailability {
   relevance?: {
     /** Quest is more relevant during these time ranges */
     preferredRanges?: TimeRange[];
+    /** Quest is more relevant in these momentum states */
+    preferredMomentum?: MomentumState[];
   };
 }
 
@@ -17,77 +17,166 @@
  * - Engine orchestration
  */
 
-import type { CharacterState, StatKey } from './state.js';
+import type { CharacterState, StatKey, TimeRange } from './state.js';
 import type {
+  AvailabilityCondition,
+  Flag,
+  QuestId,
   QuestNodeWithAvailability,
   QuestType,
   StatRequirement,
   FlagRequirement,
 } from './quests.js';
+import { DEFAULT_ENGINE_CONFIG } from './config.js';
+import { DEFAULT_TIME_ZONE } from './calendar.js';
+import { DEFAULT_PACING_POLICY, suggestRest, type PacingPolicy } from './pacing.js';
 
 // ============================================================================
-// Availability Evaluation
+// Availability Compilation
 // ============================================================================
 
 /**
- * Checks if stat requirements are satisfied.
+ * Compiles stat requirements into stat conditions.
  *
  * Constraint: quests.md - "Stats gate availability"
  * Constraint: quests.md - "Harder quests unlock through readiness, not grind"
  * Constraint: identity_arc.md - "Avoidance does not reduce stats" (gating is one-way)
  *
- * All minimum stat requirements must be met for availability.
+ * Each minimum becomes a stat condition with a lower bound.
  */
-function meetsStatRequirements(
-  state: CharacterState,
+function compileStatRequirement(
   statReq: StatRequirement
-): boolean {
+): AvailabilityCondition[] {
   if (!statReq.minimum) {
-    return true; // No requirements = always meets
+    return []; // No requirements = always meets
   }
 
-  for (const [statKey, minimumValue] of Object.entries(
-    statReq.minimum
-  ) as [StatKey, number][]) {
-    if (state.stats[statKey] < minimumValue) {
-      return false; // Any stat below minimum blocks availability
-    }
+  return (Object.entries(statReq.minimum) as [StatKey, number][]).map(
+    ([stat, min]) => ({ kind: 'stat', stat, min })
+  );
+}
+
+/**
+ * Compiles flag requirements into flag conditions.
+ *
+ * Constraint: quests.md - "Flags unlock quests"
+ * Constraint: quests.md - "Avoidance unlocks different paths" (flags track paths)
+ *
+ * Required flags become has_flag conditions; blocked flags become lacks_flag conditions.
+ */
+function compileFlagRequirement(
+  flagReq: FlagRequirement
+): AvailabilityCondition[] {
+  const conditions: AvailabilityCondition[] = [];
+
+  for (const flag of flagReq.required ?? []) {
+    conditions.push({ kind: 'has_flag', flag });
+  }
+
+  for (const flag of flagReq.blocked ?? []) {
+    conditions.push({ kind: 'lacks_flag', flag });
+  }
+
+  return conditions;
+}
+
+/**
+ * Compiles a quest's availability into a single condition.
+ *
+ * Constraint: quests.md - "Quests exist in a graph, where: Stats gate availability, Avoidance unlocks different paths, Time influences relevance"
+ *
+ * The shorthand fields (requiresUnlock, stats, flags) and the optional `when`
+ * condition are combined into one 'all' condition, in that order.
+ * Relevance hints are not compiled (they rank, they do not gate).
+ */
+export function compileAvailability(
+  quest: QuestNodeWithAvailability
+): AvailabilityCondition {
+  const availability = quest.availability;
+  const conditions: AvailabilityCondition[] = [];
+
+  if (availability.requiresUnlock) {
+    conditions.push({ kind: 'unlocked', questId: quest.id });
+  }
+
+  if (availability.stats) {
+    conditions.push(...compileStatRequirement(availability.stats));
+  }
+
+  if (availability.flags) {
+    conditions.push(...compileFlagRequirement(availability.flags));
+  }
+
+  if (availability.when) {
+    conditions.push(availability.when);
+  }
+
+  return { kind: 'all', conditions };
+}
+
+// ============================================================================
+// Availability Evaluation
+// ============================================================================
+
+/**
+ * Checks that a value lies within optional inclusive bounds.
+ */
+function isWithinBounds(value: number, min?: number, max?: number): boolean {
+  if (min !== undefined && value < min) {
+    return false;
+  }
+
+  if (max !== undefined && value > max) {
+    return false;
   }
 
   return true;
 }
 
 /**
- * Checks if flag requirements are satisfied.
+ * Evaluates an availability condition against the current state.
  *
+ * Constraint: quests.md - "Stats gate availability"
  * Constraint: quests.md - "Flags unlock quests"
- * Constraint: quests.md - "Avoidance unlocks different paths" (flags track paths)
+ * Constraint: time.md - "Time comparisons should be coarse, not granular"
  *
- * All required flags must be present; any blocked flag prevents availability.
+ * Pure function: no side effects, deterministic.
+ * Completion conditions read state.completions; a quest with no
+ * record is treated as never completed.
  */
-function meetsFlagRequirements(
+export function evaluateCondition(
   state: CharacterState,
-  flagReq: FlagRequirement
+  condition: AvailabilityCondition,
+  nowMs: number
 ): boolean {
-  // Check required flags (all must exist)
-  if (flagReq.required && flagReq.required.length > 0) {
-    for (const flag of flagReq.required) {
-      if (!state.flags.has(flag)) {
-        return false; // Missing required flag blocks availability
-      }
-    }
-  }
-
-  // Check blocked flags (any blocks)
-  if (flagReq.blocked && flagReq.blocked.length > 0) {
-    for (const flag of flagReq.blocked) {
-      if (state.flags.has(flag)) {
-        return false; // Any blocked flag prevents availability
+  switch (condition.kind) {
+    case 'all':
+      return condition.conditions.every((c) => evaluateCondition(state, c, nowMs));
+    case 'any':
+      return condition.conditions.some((c) => evaluateCondition(state, c, nowMs));
+    case 'not':
+      return !evaluateCondition(state, condition.condition, nowMs);
+    case 'stat':
+      return isWithinBounds(state.stats[condition.stat], condition.min, condition.max);
+    case 'has_flag':
+      return state.flags.has(condition.flag);
+    case 'lacks_flag':
+      return !state.flags.has(condition.flag);
+    case 'time_range':
+      return condition.in.includes(state.timeContext.range);
+    case 'unlocked':
+      return state.unlockedQuests?.has(condition.questId) ?? false;
+    case 'completed':
+      return state.completions?.[condition.questId] !== undefined;
+    case 'since_completed': {
+      const completedAt = state.completions?.[condition.questId]?.lastCompletedAtMs;
+      if (completedAt === undefined) {
+        return false; // Never completed = no elapsed time to compare
       }
+      const elapsedMs = Math.max(0, nowMs - completedAt);
+      return isWithinBounds(elapsedMs, condition.minMs, condition.maxMs);
     }
   }
-
-  return true;
 }
 
 /**
@@ -98,7 +187,8 @@ function meetsFlagRequirements(
  * Constraint: quests.md - "Time influences relevance" (but relevance is a hint, not a gate)
  * Constraint: quests.md - "Not all quests are visible at once"
  *
- * Checks stat minimums, required flags, and blocked flags.
+ * Compiles the quest's availability (unlock requirement, stat minimums, required
+ * and blocked flags, and any `when` condition) and evaluates it.
  * Time relevance is NOT used for availability (it's only for ranking).
  *
  * All conditions must be satisfied for a quest to be available.
@@ -106,28 +196,202 @@ function meetsFlagRequirements(
 export function isQuestAvailable(
   state: CharacterState,
   quest: QuestNodeWithAvailability,
-  _nowMs: number
+  nowMs: number
 ): boolean {
-  const availability = quest.availability;
+  // Time relevance is a hint for ranking, not a hard gate for availability
+  // Constraint: quests.md - "Time influences relevance" (hint, not gate)
+  return evaluateCondition(state, compileAvailability(quest), nowMs);
+}
 
-  // Check stat requirements
-  if (availability.stats) {
-    if (!meetsStatRequirements(state, availability.stats)) {
-      return false;
+// ============================================================================
+// Repeatability
+// ============================================================================
+
+/**
+ * Checks if a quest can be offered again given its completion history.
+ *
+ * Constraint: quests.md - "Quests should feel rare, not abundant"
+ * Constraint: quests.md - "Completing many quests quickly is a smell"
+ *
+ * Quests never completed are always ready. Completed non-repeatable quests
+ * are never offered again; repeatable quests wait out their cooldown.
+ */
+export function isQuestRepeatReady(
+  state: CharacterState,
+  quest: QuestNodeWithAvailability,
+  nowMs: number
+): boolean {
+  return explainRepeatability(state, quest, nowMs).length === 0;
+}
+
+// ============================================================================
+// Availability Explanation
+// ============================================================================
+
+/**
+ * AvailabilityReason: One structured reason a quest is not offered.
+ *
+ * Intended for quest authors debugging the graph, never for player-facing copy.
+ * Values are exact here because explanations are a developer tool.
+ */
+export type AvailabilityReason =
+  | { kind: 'stat_below'; stat: StatKey; value: number; min: number }
+  | { kind: 'stat_above'; stat: StatKey; value: number; max: number }
+  | { kind: 'missing_flag'; flag: Flag }
+  | { kind: 'blocked_flag'; flag: Flag }
+  | { kind: 'time_range_mismatch'; range: TimeRange; expected: TimeRange[] }
+  | { kind: 'not_unlocked'; questId: QuestId }
+  | { kind: 'not_completed'; questId: QuestId }
+  | { kind: 'completed_too_recently'; questId: QuestId; elapsedMs: number; minMs: number }
+  | { kind: 'completed_too_long_ago'; questId: QuestId; elapsedMs: number; maxMs: number }
+  /** An 'any' condition where no alternative held (reasons per alternative) */
+  | { kind: 'no_alternative_met'; alternatives: AvailabilityReason[][] }
+  /** A 'not' condition whose nested condition held */
+  | { kind: 'excluded_by_condition'; condition: AvailabilityCondition }
+  | { kind: 'completed_non_repeatable'; questId: QuestId }
+  | { kind: 'cooldown_remaining'; questId: QuestId; remainingMs: number }
+  | { kind: 'daily_rest' }
+  | { kind: 'rolling_rest' };
+
+/**
+ * AvailabilityExplanation: Why a quest is or is not offered to a player.
+ */
+export interface AvailabilityExplanation {
+  questId: QuestId;
+  /** True when no reasons block the quest */
+  available: boolean;
+  /** Every blocking reason found (empty when available) */
+  reasons: AvailabilityReason[];
+}
+
+/**
+ * Explains why a condition does not hold (empty when it holds).
+ *
+ * Mirrors evaluateCondition, but collects every failing leaf instead of
+ * short-circuiting, so one explanation shows all blockers at once.
+ */
+function explainCondition(
+  state: CharacterState,
+  condition: AvailabilityCondition,
+  nowMs: number
+): AvailabilityReason[] {
+  switch (condition.kind) {
+    case 'all':
+      return condition.conditions.flatMap((c) => explainCondition(state, c, nowMs));
+    case 'any': {
+      const alternatives = condition.conditions.map((c) => explainCondition(state, c, nowMs));
+      if (alternatives.some((reasons) => reasons.length === 0)) {
+        return [];
+      }
+      return [{ kind: 'no_alternative_met', alternatives }];
+    }
+    case 'not':
+      return evaluateCondition(state, condition.condition, nowMs)
+        ? [{ kind: 'excluded_by_condition', condition: condition.condition }]
+        : [];
+    case 'stat': {
+      const value = state.stats[condition.stat];
+      const reasons: AvailabilityReason[] = [];
+      if (condition.min !== undefined && value < condition.min) {
+        reasons.push({ kind: 'stat_below', stat: condition.stat, value, min: condition.min });
+      }
+      if (condition.max !== undefined && value > condition.max) {
+        reasons.push({ kind: 'stat_above', stat: condition.stat, value, max: condition.max });
+      }
+      return reasons;
+    }
+    case 'has_flag':
+      return state.flags.has(condition.flag) ? [] : [{ kind: 'missing_flag', flag: condition.flag }];
+    case 'lacks_flag':
+      return state.flags.has(condition.flag) ? [{ kind: 'blocked_flag', flag: condition.flag }] : [];
+    case 'time_range':
+      return condition.in.includes(state.timeContext.range)
+        ? []
+        : [{ kind: 'time_range_mismatch', range: state.timeContext.range, expected: condition.in }];
+    case 'unlocked':
+      return state.unlockedQuests?.has(condition.questId)
+        ? []
+        : [{ kind: 'not_unlocked', questId: condition.questId }];
+    case 'completed':
+      return state.completions?.[condition.questId] !== undefined
+        ? []
+        : [{ kind: 'not_completed', questId: condition.questId }];
+    case 'since_completed': {
+      const completedAt = state.completions?.[condition.questId]?.lastCompletedAtMs;
+      if (completedAt === undefined) {
+        return [{ kind: 'not_completed', questId: condition.questId }];
+      }
+      const elapsedMs = Math.max(0, nowMs - completedAt);
+      const reasons: AvailabilityReason[] = [];
+      if (condition.minMs !== undefined && elapsedMs < condition.minMs) {
+        reasons.push({ kind: 'completed_too_recently', questId: condition.questId, elapsedMs, minMs: condition.minMs });
+      }
+      if (condition.maxMs !== undefined && elapsedMs > condition.maxMs) {
+        reasons.push({ kind: 'completed_too_long_ago', questId: condition.questId, elapsedMs, maxMs: condition.maxMs });
+      }
+      return reasons;
     }
   }
+}
 
-  // Check flag requirements
-  if (availability.flags) {
-    if (!meetsFlagRequirements(state, availability.flags)) {
-      return false;
-    }
+/**
+ * Explains why a completed quest cannot be offered again (empty when it can).
+ */
+function explainRepeatability(
+  state: CharacterState,
+  quest: QuestNodeWithAvailability,
+  nowMs: number
+): AvailabilityReason[] {
+  const completedAt = state.completions?.[quest.id]?.lastCompletedAtMs;
+  if (completedAt === undefined) {
+    return []; // Not completed, available
   }
 
-  // Time relevance is a hint for ranking, not a hard gate for availability
-  // Constraint: quests.md - "Time influences relevance" (hint, not gate)
+  if (!quest.repeatable) {
+    return [{ kind: 'completed_non_repeatable', questId: quest.id }];
+  }
 
-  return true;
+  const elapsedMs = nowMs - completedAt;
+  if (elapsedMs < quest.repeatable.cooldownMs) {
+    return [{ kind: 'cooldown_remaining', questId: quest.id, remainingMs: quest.repeatable.cooldownMs - elapsedMs }];
+  }
+
+  return [];
+}
+
+/**
+ * Explains whether a quest would be offered to a player, and why not.
+ *
+ * Constraint: quests.md - "Not all quests are visible at once"
+ * Constraint: quests.md - "Agents must never present quests as a flat list"
+ *
+ * Pure debugging aid for quest authors. Covers every check a quest passes
+ * before it is offered: availability conditions, repeatability/cooldown,
+ * and the pacing policy's rest (daily rest uses the player's time zone). Ranking and selection are
+ * not explained (an available quest may still lose out to variety or time relevance).
+ */
+export function explainAvailability(
+  state: CharacterState,
+  quest: QuestNodeWithAvailability,
+  nowMs: number,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  pacing: PacingPolicy = DEFAULT_PACING_POLICY
+): AvailabilityExplanation {
+  const reasons: AvailabilityReason[] = [
+    ...explainCondition(state, compileAvailability(quest), nowMs),
+    ...explainRepeatability(state, quest, nowMs),
+  ];
+
+  const rest = suggestRest(state, nowMs, pacing, timeZone);
+  if (rest) {
+    reasons.push({ kind: rest.policy });
+  }
+
+  return {
+    questId: quest.id,
+    available: reasons.length === 0,
+    reasons,
+  };
 }
 
 // ============================================================================
@@ -140,8 +404,10 @@ export function isQuestAvailable(
  * Constraint: quests.md - "Stats gate availability"
  * Constraint: quests.md - "Flags unlock quests"
  * Constraint: quests.md - "Not all quests are visible at once"
+ * Constraint: quests.md - "Quests should feel rare, not abundant"
  *
- * Returns only quests that meet all availability requirements (stats, flags).
+ * Returns only quests that meet all availability requirements (unlocks, stats, flags, conditions)
+ * and whose completion history allows them to be offered (not completed, or repeatable and past cooldown).
  * Time relevance is not used for filtering (only for ranking).
  */
 export function filterAvailableQuests(
@@ -149,7 +415,9 @@ export function filterAvailableQuests(
   quests: QuestNodeWithAvailability[],
   nowMs: number
 ): QuestNodeWithAvailability[] {
-  return quests.filter((quest) => isQuestAvailable(state, quest, nowMs));
+  return quests.filter(
+    (quest) => isQuestAvailable(state, quest, nowMs) && isQuestRepeatReady(state, quest, nowMs)
+  );
 }
 
 // ============================================================================
@@ -162,8 +430,10 @@ export function filterAvailableQuests(
  * Constraint: quests.md - "Time influences relevance"
  * Constraint: quests.md - "The 'easiest' quest should never dominate"
  * Constraint: time.md - "Time does not judge. It simply moves forward."
+ * Constraint: time.md - "Recent Agency actions lower future resistance"
  *
- * Quests matching the current time range are ranked higher.
+ * Quests matching the current time range or momentum state are ranked
+ * higher; quests matching both rank highest.
  * Within each group, original order is preserved (stable sort).
  * Time relevance is a hint, not a punishment.
  */
@@ -173,24 +443,30 @@ export function rankQuests(
   _nowMs: number
 ): QuestNodeWithAvailability[] {
   const currentRange = state.timeContext.range;
+  const currentMomentum = state.timeContext.momentum;
 
-  // Separate quests into time-matched and non-matched
-  const matched: QuestNodeWithAvailability[] = [];
-  const unmatched: QuestNodeWithAvailability[] = [];
+  // Group quests by how many relevance hints they match (0, 1, or 2)
+  const groups: QuestNodeWithAvailability[][] = [[], [], []];
 
   for (const quest of quests) {
     const preferredRanges =
       quest.availability.relevance?.preferredRanges ?? [];
+    const preferredMomentum =
+      quest.availability.relevance?.preferredMomentum ?? [];
 
-    if (preferredRanges.length > 0 && preferredRanges.includes(currentRange)) {
-      matched.push(quest);
-    } else {
-      unmatched.push(quest);
+    let matches = 0;
+    if (preferredRanges.includes(currentRange)) {
+      matches++;
     }
+    if (currentMomentum !== undefined && preferredMomentum.includes(currentMomentum)) {
+      matches++;
+    }
+
+    groups[matches].push(quest);
   }
 
-  // Return matched first, then unmatched (preserving order within each group)
-  return [...matched, ...unmatched];
+  // Return best-matched first (preserving order within each group)
+  return [...groups[2], ...groups[1], ...groups[0]];
 }
 
 // ============================================================================
@@ -213,7 +489,7 @@ export function selectQuestChoices(
   _state: CharacterState,
   quests: QuestNodeWithAvailability[],
   _nowMs: number,
-  maxChoices = 3
+  maxChoices = DEFAULT_ENGINE_CONFIG.maxQuestChoices
 ): QuestNodeWithAvailability[] {
   if (quests.length === 0) {
     return [];
@@ -267,7 +543,7 @@ export function selectQuestChoices(
  * Constraint: quests.md - "Not all quests are visible at once"
  *
  * Performs the full pipeline:
- * 1. Filters to available quests (stats/flags)
+ * 1. Filters to available quests (stats/flags/repeatability)
  * 2. Ranks by time relevance
  * 3. Selects final choices (maxChoices, preferring variety)
  *
@@ -277,7 +553,7 @@ export function chooseQuests(
   state: CharacterState,
   quests: QuestNodeWithAvailability[],
   nowMs: number,
-  maxChoices = 3
+  maxChoices = DEFAULT_ENGINE_CONFIG.maxQuestChoices
 ): QuestNodeWithAvailability[] {
   const available = filterAvailableQuests(state, quests, nowMs);
   const ranked = rankQuests(state, available, nowMs);
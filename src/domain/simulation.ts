@@ -0,0 +1,291 @@
+/**
+ * Timeline simulation for the life-as-a-game system.
+ *
+ * This file replays a scripted player timeline through the pure engine
+ * functions (tick, startQuest, completeQuest, setAsideQuest) and checks
+ * expectations along the way. It lets quest authors see how a quest changes
+ * a player's path before shipping it.
+ *
+ * All decisions in this file are constrained by:
+ * - docs/ethos.md
+ * - docs/quests.md
+ * - docs/time.md
+ *
+ * Non-goals (not included):
+ * - Reading timelines from disk or printing results (see src/dev/simulate.ts)
+ * - Randomized or statistical simulation
+ * - Narrative rendering
+ */
+
+import type { CharacterState, MomentumState, Stats, TimeRange } from './state.js';
+import type { QuestId } from './quests.js';
+import type { EngineEvent } from './events.js';
+import type { QuestCatalog } from './engine.js';
+import {
+  tick,
+  startQuest,
+  completeQuest,
+  setAsideQuest,
+  getAvailableQuests,
+} from './engine.js';
+import { DEFAULT_ENGINE_CONFIG } from './config.js';
+import type { EngineConfig } from './config.js';
+
+// ============================================================================
+// Timeline Script
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SimulationAction: What the player does at a step.
+ *
+ * 'tick' only lets time pass; the quest actions mirror the worker routes.
+ */
+export type SimulationAction = 'tick' | 'start' | 'complete' | 'set_aside';
+
+/**
+ * SimulationExpectation: Checks applied to the state after a step.
+ *
+ * Every field is optional; only the fields given are checked.
+ */
+export interface SimulationExpectation {
+  /** Exact values for the listed stats */
+  stats?: Partial<Stats>;
+  /** Flags that must be set */
+  hasFlags?: string[];
+  /** Flags that must not be set */
+  lacksFlags?: string[];
+  /** Expected time range */
+  range?: TimeRange;
+  /** Expected momentum */
+  momentum?: MomentumState;
+  /** Expected active quest (null when no quest should be underway) */
+  activeQuest?: QuestId | null;
+  /** Quests that must be offered after the step */
+  offered?: QuestId[];
+  /** Quests that must not be offered after the step */
+  notOffered?: QuestId[];
+  /** Event types the step must emit */
+  events?: EngineEvent['type'][];
+}
+
+/**
+ * SimulationStep: One scripted moment in a timeline.
+ *
+ * Constraint: time.md - "Track last meaningful action, not last login"
+ *
+ * The step time is atMs when given, otherwise startMs plus `day` days.
+ * Steps must not go back in time.
+ */
+export interface SimulationStep {
+  /** Absolute time of the step, in milliseconds */
+  atMs?: number;
+  /** Days since the start of the timeline (fractions allowed) */
+  day?: number;
+  /** What the player does */
+  action: SimulationAction;
+  /** Quest acted on (required for quest actions) */
+  questId?: QuestId;
+  /** Checks applied after the step */
+  expect?: SimulationExpectation;
+}
+
+/**
+ * SimulationScript: An ordered timeline of steps.
+ */
+export interface SimulationScript {
+  /** Time that `day` offsets count from (defaults to the initial state's nowMs) */
+  startMs?: number;
+  steps: SimulationStep[];
+}
+
+// ============================================================================
+// Simulation Results
+// ============================================================================
+
+/**
+ * SimulationStepResult: What happened at one step.
+ *
+ * events holds the tick events, the action events, then any events from
+ * quest selection (rest_suggested). offered is what getAvailableQuests
+ * returns after the step.
+ */
+export interface SimulationStepResult {
+  index: number;
+  atMs: number;
+  action: SimulationAction;
+  questId?: QuestId;
+  events: EngineEvent[];
+  state: CharacterState;
+  offered: QuestId[];
+  /** Unmet expectations (empty when the step passed) */
+  failures: string[];
+}
+
+/**
+ * SimulationResult: Every step result plus the final state.
+ */
+export interface SimulationResult {
+  steps: SimulationStepResult[];
+  finalState: CharacterState;
+  /** True when every expectation was met */
+  passed: boolean;
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Resolves the absolute time of a step.
+ */
+function stepTimeMs(step: SimulationStep, startMs: number): number {
+  if (step.atMs !== undefined) {
+    return step.atMs;
+  }
+  return startMs + (step.day ?? 0) * DAY_MS;
+}
+
+/**
+ * Applies the step action to an already ticked state.
+ * Quest actions without a questId leave state unchanged (graceful, no throws).
+ */
+function applyAction(
+  state: CharacterState,
+  step: SimulationStep,
+  catalog: QuestCatalog,
+  nowMs: number
+): { state: CharacterState; events: EngineEvent[] } {
+  if (step.action === 'tick' || !step.questId) {
+    return { state, events: [] };
+  }
+
+  switch (step.action) {
+    case 'start':
+      return startQuest(state, step.questId, catalog, nowMs);
+    case 'complete':
+      return completeQuest(state, step.questId, catalog, nowMs);
+    case 'set_aside':
+      return setAsideQuest(state, step.questId, catalog, nowMs);
+  }
+}
+
+/**
+ * Lists the expectations a step result does not meet.
+ */
+function checkExpectation(
+  expectation: SimulationExpectation,
+  state: CharacterState,
+  events: EngineEvent[],
+  offered: QuestId[]
+): string[] {
+  const failures: string[] = [];
+
+  for (const [stat, value] of Object.entries(expectation.stats ?? {})) {
+    const actual = state.stats[stat as keyof Stats];
+    if (actual !== value) {
+      failures.push(`expected ${stat} ${value}, got ${actual}`);
+    }
+  }
+  for (const flag of expectation.hasFlags ?? []) {
+    if (!state.flags.has(flag)) {
+      failures.push(`expected flag ${flag} to be set`);
+    }
+  }
+  for (const flag of expectation.lacksFlags ?? []) {
+    if (state.flags.has(flag)) {
+      failures.push(`expected flag ${flag} not to be set`);
+    }
+  }
+  if (expectation.range !== undefined && state.timeContext.range !== expectation.range) {
+    failures.push(`expected range ${expectation.range}, got ${state.timeContext.range}`);
+  }
+  if (expectation.momentum !== undefined) {
+    const momentum = state.timeContext.momentum ?? 'absent';
+    if (momentum !== expectation.momentum) {
+      failures.push(`expected momentum ${expectation.momentum}, got ${momentum}`);
+    }
+  }
+  if (expectation.activeQuest !== undefined) {
+    const active = state.activeQuest?.questId ?? null;
+    if (active !== expectation.activeQuest) {
+      failures.push(`expected active quest ${expectation.activeQuest ?? 'none'}, got ${active ?? 'none'}`);
+    }
+  }
+  for (const questId of expectation.offered ?? []) {
+    if (!offered.includes(questId)) {
+      failures.push(`expected ${questId} to be offered`);
+    }
+  }
+  for (const questId of expectation.notOffered ?? []) {
+    if (offered.includes(questId)) {
+      failures.push(`expected ${questId} not to be offered`);
+    }
+  }
+  for (const type of expectation.events ?? []) {
+    if (!events.some((event) => event.type === type)) {
+      failures.push(`expected a ${type} event`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Replays a scripted timeline through the engine.
+ *
+ * Constraint: time.md - "Time does not judge. It simply moves forward."
+ * Constraint: ethos.md - "Progress is earned only through real action in the real world"
+ *
+ * Each step ticks state to the step time (as the worker does on every read),
+ * applies the action, lists the quests offered afterwards, and checks the
+ * step's expectations. Steps that go back in time are recorded as failures
+ * and skipped. Deterministic: the same inputs always produce the same result.
+ */
+export function simulate(
+  initialState: CharacterState,
+  script: SimulationScript,
+  catalog: QuestCatalog,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): SimulationResult {
+  const startMs = script.startMs ?? initialState.timeContext.nowMs;
+  const steps: SimulationStepResult[] = [];
+  let state = initialState;
+
+  script.steps.forEach((step, index) => {
+    const atMs = stepTimeMs(step, startMs);
+
+    if (atMs < state.timeContext.nowMs) {
+      steps.push({
+        index,
+        atMs,
+        action: step.action,
+        questId: step.questId,
+        events: [],
+        state,
+        offered: [],
+        failures: [`step goes back in time (${atMs} < ${state.timeContext.nowMs})`],
+      });
+      return;
+    }
+
+    const ticked = tick(state, atMs, config);
+    const acted = applyAction(ticked.state, step, catalog, atMs);
+    const events = [...ticked.events, ...acted.events];
+    state = acted.state;
+
+    const available = getAvailableQuests(state, catalog, atMs, config);
+    const offered = available.quests.map((quest) => quest.id);
+    events.push(...available.events);
+    const failures = step.expect ? checkExpectation(step.expect, state, events, offered) : [];
+
+    steps.push({ index, atMs, action: step.action, questId: step.questId, events, state, offered, failures });
+  });
+
+  return {
+    steps,
+    finalState: state,
+    passed: steps.every((step) => step.failures.length === 0),
+  };
+}
@@ -14,6 +14,8 @@
  * - docs/time.md
  */
 
+import type { QuestId } from './quests.js';
+
 // ============================================================================
 // Stats
 // ============================================================================
@@ -67,8 +69,9 @@ export type TimeRange = 'recent' | 'gap' | 'long_gap';
  * Constraint: time.md - "Momentum is implicit, never shown as a number"
  * Constraint: time.md - "Recent Agency actions lower future resistance"
  *
- * This is a label, not a counter. Momentum is typically inferred from TimeRange
- * but may be stored explicitly for narrative purposes or quest gating.
+ * This is a label, not a counter. Derived from how long ago a quest was last
+ * started (present → fading → absent, on the same coarse boundaries as TimeRange)
+ * and stored on TimeContext for narrative tone and quest ranking.
  */
 export type MomentumState = 'present' | 'fading' | 'absent';
 
@@ -91,6 +94,10 @@ export interface TimeContext {
   nowMs: number;
   /** Last meaningful action timestamp in milliseconds (optional, abstract reference) */
   lastMeaningfulActionMs?: number;
+  /** Last quest start in milliseconds (for deriving momentum only) */
+  lastInitiatedMs?: number;
+  /** Momentum label derived from recent initiation (absent on states saved before momentum existed) */
+  momentum?: MomentumState;
 }
 
 // ============================================================================
@@ -110,6 +117,86 @@ export interface TimeContext {
  */
 export type Flags = Set<string>;
 
+/**
+ * UnlockedQuests: Set of quest IDs opened by earlier quests.
+ *
+ * Constraint: quests.md - "Every quest must change something: A future quest unlocks"
+ * Constraint: quests.md - "Quests exist in a graph, not a flat list"
+ * Constraint: quests.md - "Not all quests are visible at once"
+ *
+ * Only consulted for quests that declare they require an unlock.
+ * Present-tense: which paths are open now, not when they opened.
+ */
+export type UnlockedQuests = Set<QuestId>;
+
+// ============================================================================
+// Active Quest
+// ============================================================================
+
+/**
+ * ActiveQuestStatus: Where a started quest currently stands.
+ *
+ * Constraint: quests.md - "Quests are lived, not completed"
+ * Constraint: quests.md - "Completion is not required; Starting is sufficient" (for Agency)
+ *
+ * A quest is only ever 'in_progress' while it is active. Completion and
+ * setting aside remove the active quest rather than changing its status.
+ */
+export type ActiveQuestStatus = 'in_progress';
+
+/**
+ * ActiveQuest: The quest the player has started and not yet resolved.
+ *
+ * Constraint: quests.md - "A quest represents a deliberate decision to act differently than default"
+ * Constraint: quests.md - "One meaningful quest can define a day"
+ * Constraint: time.md - "Track last meaningful action, not last login"
+ *
+ * Present-tense: records what is underway now, not a history of past runs.
+ * At most one quest is active at a time.
+ */
+export interface ActiveQuest {
+  /** Quest ID that was started */
+  questId: QuestId;
+  /** When the quest was started in milliseconds (for calculations only) */
+  startedAtMs: number;
+  /** Current status of the started quest */
+  status: ActiveQuestStatus;
+}
+
+// ============================================================================
+// Completion History
+// ============================================================================
+
+/**
+ * CompletionRecord: Coarse memory of one quest's completions.
+ *
+ * Constraint: quests.md - "Quests should feel rare, not abundant"
+ * Constraint: time.md - "Time comparisons should be coarse, not granular"
+ * Constraint: time.md - "Use ranges instead of exact counts"
+ *
+ * One record per quest, replaced on each completion (not a log of runs).
+ * The timestamp exists only for cooldowns and daily rest; anything
+ * narrative should read the coarse range instead.
+ * The range is 'recent' on completion and refreshed on each time tick.
+ */
+export interface CompletionRecord {
+  /** Quest ID that was completed */
+  questId: QuestId;
+  /** How many times the quest has been completed */
+  count: number;
+  /** When the quest was last completed in milliseconds (for calculations only) */
+  lastCompletedAtMs: number;
+  /** Coarse time since the last completion (same ranges as TimeContext) */
+  lastCompletedRange: TimeRange;
+}
+
+/**
+ * CompletionHistory: Completion records keyed by quest ID.
+ *
+ * A quest without a record has never been completed.
+ */
+export type CompletionHistory = Record<QuestId, CompletionRecord>;
+
 // ============================================================================
 // Character State
 // ============================================================================
@@ -121,13 +208,16 @@ export type Flags = Set<string>;
  * - Evaluate quest availability (stats, flags, time context)
  * - Apply quest transitions (stats change, flags update)
  * - Handle time drift (time context determines stagnation behavior)
+ * - Know which quest is underway (active quest between start and completion)
+ * - Know which paths in the quest graph are open (unlocked quests)
+ * - Know which quests have been completed (repeatability and cooldowns)
  *
  * Constraint: ethos.md - "Progress is earned only through real action in the real world"
  * Constraint: stats.md - "Stats reflect patterns of behavior over time, not isolated actions"
  * Constraint: time.md - "Inactivity is treated as information, not neglect"
  *
  * Non-goals (not included):
- * - Quest history or event logs (present-tense only)
+ * - Event logs or a full quest history (only a coarse record per completed quest)
  * - Analytics or tracking data
  * - Database persistence concerns
  * - UI state or presentation data
@@ -139,6 +229,12 @@ export interface CharacterState {
   flags: Flags;
   /** Time context for drift and narrative tone */
   timeContext: TimeContext;
+  /** Quest currently underway (absent when no quest has been started) */
+  activeQuest?: ActiveQuest;
+  /** Quests opened by earlier quests (absent when nothing has been unlocked) */
+  unlockedQuests?: UnlockedQuests;
+  /** Completion record per completed quest (absent when nothing has been completed) */
+  completions?: CompletionHistory;
 }
 
 // ============================================================================
@@ -22,49 +22,41 @@
 
 import type {
   CharacterState,
+  MomentumState,
   Stats,
   StatKey,
   TimeRange,
   TimeContext,
   Flags,
+  UnlockedQuests,
+  CompletionHistory,
 } from './state.js';
-import type { QuestId, QuestType, QuestNodeWithAvailability, Flag } from './quests.js';
+import type { QuestId, QuestNodeWithAvailability, Flag } from './quests.js';
 import type {
   EngineEvent,
 } from './events.js';
+import { questNarrativeNote } from './fragments.js';
+import { DEFAULT_ENGINE_CONFIG } from './config.js';
+import type { EngineConfig, TimeThresholds } from './config.js';
 
 // ============================================================================
 // Time Range Calculation
 // ============================================================================
 
-/**
- * COARSE_DEFAULT_TIME_THRESHOLDS_MS: Coarse time range boundaries for computing TimeRange.
- *
- * Constraint: time.md - "Time comparisons should be coarse, not granular"
- * Constraint: time.md - "Use ranges instead of exact counts"
- * Constraint: time.md - "Precision increases pressure. Ambiguity preserves autonomy."
- * Constraint: time.md - "Values are intentionally narrative, not calendrical. Durations exist only as coarse defaults; the meaning remains narrative."
- *
- * These are coarse defaults used internally for TimeRange calculation.
- * They are intentionally imprecise to avoid pressure and preserve ambiguity.
- * The actual time semantics remain narrative (recent/gap/long_gap), not calendrical.
- */
-const COARSE_DEFAULT_TIME_THRESHOLDS_MS = {
-  RECENT: 2 * 24 * 60 * 60 * 1000, // ~2 days
-  LONG_GAP: 7 * 24 * 60 * 60 * 1000, // ~7 days
-} as const;
-
 /**
  * Computes TimeRange from time elapsed since last meaningful action.
  *
  * Constraint: time.md - "Track last meaningful action, not last login"
  * Constraint: time.md - "Values are intentionally narrative, not calendrical"
+ * Constraint: time.md - "Precision increases pressure. Ambiguity preserves autonomy."
  *
+ * Boundaries come from EngineConfig (coarse defaults unless overridden).
  * Pure function: no side effects, deterministic.
  */
 function computeTimeRange(
   lastMeaningfulActionMs: number | undefined,
-  nowMs: number
+  nowMs: number,
+  thresholds: TimeThresholds
 ): TimeRange {
   if (lastMeaningfulActionMs === undefined) {
     return 'long_gap'; // No history = long gap
@@ -72,15 +64,56 @@ function computeTimeRange(
 
   const elapsedMs = Math.max(0, nowMs - lastMeaningfulActionMs);
 
-  if (elapsedMs < COARSE_DEFAULT_TIME_THRESHOLDS_MS.RECENT) {
+  if (elapsedMs < thresholds.recentMs) {
     return 'recent';
-  } else if (elapsedMs < COARSE_DEFAULT_TIME_THRESHOLDS_MS.LONG_GAP) {
+  } else if (elapsedMs < thresholds.longGapMs) {
     return 'gap';
   } else {
     return 'long_gap';
   }
 }
 
+/**
+ * Computes MomentumState from time elapsed since the last quest start.
+ *
+ * Constraint: time.md - "Momentum emerges from recent initiation, not streaks"
+ * Constraint: time.md - "Momentum is felt, not counted"
+ *
+ * Uses the same coarse boundaries as TimeRange. Older states without a
+ * recorded start fall back to the last meaningful action.
+ * Pure function: no side effects, deterministic.
+ */
+function computeMomentum(
+  context: TimeContext,
+  nowMs: number,
+  thresholds: TimeThresholds
+): MomentumState {
+  const lastInitiatedMs = context.lastInitiatedMs ?? context.lastMeaningfulActionMs;
+  return momentumForRange(computeTimeRange(lastInitiatedMs, nowMs, thresholds));
+}
+
+/**
+ * Maps a TimeRange onto the momentum label sharing its boundaries.
+ */
+function momentumForRange(range: TimeRange): MomentumState {
+  switch (range) {
+    case 'recent':
+      return 'present';
+    case 'gap':
+      return 'fading';
+    case 'long_gap':
+      return 'absent';
+  }
+}
+
+/**
+ * Reads the stored momentum label, deriving it from the stored range for
+ * states saved without one.
+ */
+function storedMomentum(context: TimeContext): MomentumState {
+  return context.momentum ?? momentumForRange(context.range);
+}
+
 // ============================================================================
 // Pure State Update Helpers
 // ============================================================================
@@ -140,6 +173,81 @@ function applyFlagChanges(
   return newFlags;
 }
 
+/**
+ * Adds newly unlocked quest IDs to the existing unlocked set.
+ *
+ * Constraint: quests.md - "Every quest must change something: A future quest unlocks"
+ * Constraint: quests.md - "Quests exist in a graph, not a flat list"
+ *
+ * Pure function: creates new Set with quest IDs added. Unlocks are never removed.
+ */
+function applyUnlocks(
+  currentUnlocked: UnlockedQuests | undefined,
+  questIds: QuestId[]
+): UnlockedQuests {
+  const newUnlocked = new Set(currentUnlocked);
+
+  for (const questId of questIds) {
+    newUnlocked.add(questId);
+  }
+
+  return newUnlocked;
+}
+
+/**
+ * Records a completion in the completion history.
+ *
+ * Constraint: quests.md - "Quests should feel rare, not abundant"
+ * Constraint: time.md - "Use ranges instead of exact counts"
+ *
+ * Pure function: creates a new history with the quest's record replaced.
+ * A fresh completion is always 'recent'.
+ */
+function recordCompletion(
+  currentCompletions: CompletionHistory | undefined,
+  questId: QuestId,
+  nowMs: number
+): CompletionHistory {
+  const previous = currentCompletions?.[questId];
+
+  return {
+    ...currentCompletions,
+    [questId]: {
+      questId,
+      count: (previous?.count ?? 0) + 1,
+      lastCompletedAtMs: nowMs,
+      lastCompletedRange: 'recent',
+    },
+  };
+}
+
+/**
+ * Recomputes the coarse range of each completion record.
+ *
+ * Constraint: time.md - "Time comparisons should be coarse, not granular"
+ *
+ * Pure function: returns the same history when no range changed.
+ */
+function refreshCompletionRanges(
+  currentCompletions: CompletionHistory | undefined,
+  nowMs: number,
+  thresholds: TimeThresholds
+): CompletionHistory | undefined {
+  if (!currentCompletions) {
+    return currentCompletions;
+  }
+
+  let changed = false;
+  const refreshed: CompletionHistory = {};
+  for (const [questId, record] of Object.entries(currentCompletions)) {
+    const range = computeTimeRange(record.lastCompletedAtMs, nowMs, thresholds);
+    changed = changed || range !== record.lastCompletedRange;
+    refreshed[questId] = { ...record, lastCompletedRange: range };
+  }
+
+  return changed ? refreshed : currentCompletions;
+}
+
 /**
  * Updates TimeContext with new time range and timestamp.
  *
@@ -155,6 +263,7 @@ function updateTimeContext(
   lastMeaningfulActionMs?: number
 ): TimeContext {
   return {
+    ...currentContext,
     range: newRange,
     nowMs,
     lastMeaningfulActionMs:
@@ -174,13 +283,13 @@ function updateTimeContext(
  * Constraint: time.md - "Track last meaningful action, not last login"
  *
  * Starting a quest is a meaningful action (player has made a decision to act).
- * Updates lastMeaningfulActionMs and emits QuestStartedEvent.
+ * Updates lastMeaningfulActionMs, records the quest as active, and emits QuestStartedEvent.
+ * Starting is initiation, so momentum becomes 'present' (MomentumChangedEvent if it was not).
  * Does not apply quest consequences (those happen on completion).
  */
 export function applyQuestStarted(
   state: CharacterState,
-  questId: QuestId,
-  questType: QuestType,
+  quest: QuestNodeWithAvailability,
   nowMs: number
 ): { state: CharacterState; events: EngineEvent[] } {
   // Starting a quest is a meaningful action
@@ -197,22 +306,46 @@ export function applyQuestStarted(
     });
   }
 
-  const newTimeContext = updateTimeContext(
-    state.timeContext,
-    newRange,
-    nowMs,
-    nowMs // Update last meaningful action to now
-  );
+  // Starting is initiation: momentum is present again
+  // Constraint: time.md - "Momentum emerges from recent initiation, not streaks"
+  const previousMomentum = storedMomentum(state.timeContext);
+  const newMomentum: MomentumState = 'present';
+  if (previousMomentum !== newMomentum) {
+    events.push({
+      type: 'momentum_changed',
+      previousMomentum,
+      newMomentum,
+    });
+  }
+
+  const newTimeContext: TimeContext = {
+    ...updateTimeContext(
+      state.timeContext,
+      newRange,
+      nowMs,
+      nowMs // Update last meaningful action to now
+    ),
+    lastInitiatedMs: nowMs,
+    momentum: newMomentum,
+  };
 
   const newState: CharacterState = {
     ...state,
     timeContext: newTimeContext,
+    activeQuest: {
+      questId: quest.id,
+      startedAtMs: nowMs,
+      status: 'in_progress',
+    },
   };
 
+  // Emit quest started event (last, as it summarizes the transition)
+  const narrative = questNarrativeNote(quest, 'started');
   events.push({
     type: 'quest_started',
-    questId,
-    questType,
+    questId: quest.id,
+    questType: quest.type,
+    ...(narrative && { narrative }),
   });
 
   return { state: newState, events };
@@ -228,6 +361,8 @@ export function applyQuestStarted(
  *
  * Applies quest.consequence (statChanges, flagsToSet, flagsToClear, unlocksQuests)
  * and emits corresponding events. Updates lastMeaningfulActionMs (completion is meaningful).
+ * Adds unlocked quests to state.unlockedQuests, records the completion
+ * in state.completions, and clears the active quest.
  */
 export function applyQuestCompleted(
   state: CharacterState,
@@ -267,8 +402,10 @@ export function applyQuestCompleted(
     });
   }
 
-  // Emit quests unlocked event
+  // Apply unlocks and emit quests unlocked event
+  let newUnlocked = state.unlockedQuests;
   if (consequence.unlocksQuests && consequence.unlocksQuests.length > 0) {
+    newUnlocked = applyUnlocks(state.unlockedQuests, consequence.unlocksQuests);
     events.push({
       type: 'quests_unlocked',
       questIds: consequence.unlocksQuests,
@@ -296,10 +433,12 @@ export function applyQuestCompleted(
   );
 
   // Emit quest completed event (last, as it summarizes the transition)
+  const narrative = questNarrativeNote(quest, 'completed');
   events.push({
     type: 'quest_completed',
     questId: quest.id,
     questType: quest.type,
+    ...(narrative && { narrative }),
   });
 
   const newState: CharacterState = {
@@ -307,6 +446,87 @@ export function applyQuestCompleted(
     stats: newStats,
     flags: newFlags,
     timeContext: newTimeContext,
+    activeQuest: undefined,
+    unlockedQuests: newUnlocked,
+    completions: recordCompletion(state.completions, quest.id, nowMs),
+  };
+
+  return { state: newState, events };
+}
+
+/**
+ * Applies quest set aside transition.
+ *
+ * Constraint: quests.md - "Avoidance unlocks different paths"
+ * Constraint: quests.md - "If a quest is avoided: Stats do not decrease, Narrative adapts, The system offers a different angle"
+ * Constraint: identity_arc.md - "Avoidance does not reduce stats"
+ *
+ * Clears the active quest and applies quest.avoidance (flagsToSet, flagsToClear,
+ * unlocksQuests) if declared, adding unlocked quests to state.unlockedQuests.
+ * Never touches stats. Setting a quest aside is not an initiation, so
+ * lastMeaningfulActionMs and the time range are left as they are.
+ */
+export function applyQuestSetAside(
+  state: CharacterState,
+  quest: QuestNodeWithAvailability,
+  nowMs: number
+): { state: CharacterState; events: EngineEvent[] } {
+  const avoidance = quest.avoidance ?? {};
+  const events: EngineEvent[] = [];
+
+  // Apply flag changes (avoidance opens a different path)
+  let newFlags = state.flags;
+  const hasFlagChanges =
+    (avoidance.flagsToSet && avoidance.flagsToSet.length > 0) ||
+    (avoidance.flagsToClear && avoidance.flagsToClear.length > 0);
+
+  if (hasFlagChanges) {
+    newFlags = applyFlagChanges(
+      state.flags,
+      avoidance.flagsToSet,
+      avoidance.flagsToClear
+    );
+
+    events.push({
+      type: 'flag_changed',
+      flagsSet: avoidance.flagsToSet,
+      flagsCleared: avoidance.flagsToClear,
+    });
+  }
+
+  // Apply unlocks and emit quests unlocked event
+  let newUnlocked = state.unlockedQuests;
+  if (avoidance.unlocksQuests && avoidance.unlocksQuests.length > 0) {
+    newUnlocked = applyUnlocks(state.unlockedQuests, avoidance.unlocksQuests);
+    events.push({
+      type: 'quests_unlocked',
+      questIds: avoidance.unlocksQuests,
+    });
+  }
+
+  // Time moves forward, but setting aside is not a meaningful action
+  const newTimeContext = updateTimeContext(
+    state.timeContext,
+    state.timeContext.range,
+    nowMs,
+    state.timeContext.lastMeaningfulActionMs // Don't change last meaningful action
+  );
+
+  // Emit quest set aside event (last, as it summarizes the transition)
+  const narrative = questNarrativeNote(quest, 'setAside');
+  events.push({
+    type: 'quest_set_aside',
+    questId: quest.id,
+    questType: quest.type,
+    ...(narrative && { narrative }),
+  });
+
+  const newState: CharacterState = {
+    ...state,
+    flags: newFlags,
+    timeContext: newTimeContext,
+    activeQuest: undefined,
+    unlockedQuests: newUnlocked,
   };
 
   return { state: newState, events };
@@ -325,15 +545,21 @@ export function applyQuestCompleted(
  * Computes current TimeRange from lastMeaningfulActionMs and nowMs.
  * Emits TimeContextChangedEvent if range changed.
  * Emits ReEntrySuggestedEvent on long gaps (informational, not punitive).
+ * Derives momentum from the last quest start; emits MomentumChangedEvent if the label changed.
+ * Refreshes the coarse range of each completion record (no events).
  * Does NOT modify stats (stagnation, not decay).
+ * Range boundaries come from config (defaults to DEFAULT_ENGINE_CONFIG).
  */
 export function applyTimeTick(
   state: CharacterState,
-  nowMs: number
+  nowMs: number,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
 ): { state: CharacterState; events: EngineEvent[] } {
+  const thresholds = config.timeThresholdsMs;
   const newRange = computeTimeRange(
     state.timeContext.lastMeaningfulActionMs,
-    nowMs
+    nowMs,
+    thresholds
   );
 
   const events: EngineEvent[] = [];
@@ -363,18 +589,34 @@ export function applyTimeTick(
     }
   }
 
+  // Momentum follows recent initiation; fading is information, not a warning
+  // Constraint: time.md - "Momentum is implicit, never shown as a number"
+  const previousMomentum = storedMomentum(state.timeContext);
+  const newMomentum = computeMomentum(state.timeContext, nowMs, thresholds);
+  if (previousMomentum !== newMomentum) {
+    events.push({
+      type: 'momentum_changed',
+      previousMomentum,
+      newMomentum,
+    });
+  }
+
   // Update time context (range may have changed, timestamp always updates)
   // Constraint: time.md - "Stats do not decay rapidly" (we don't touch stats here)
-  const newTimeContext = updateTimeContext(
-    state.timeContext,
-    newRange,
-    nowMs,
-    state.timeContext.lastMeaningfulActionMs // Don't change last meaningful action
-  );
+  const newTimeContext: TimeContext = {
+    ...updateTimeContext(
+      state.timeContext,
+      newRange,
+      nowMs,
+      state.timeContext.lastMeaningfulActionMs // Don't change last meaningful action
+    ),
+    momentum: newMomentum,
+  };
 
   const newState: CharacterState = {
     ...state,
     timeContext: newTimeContext,
+    completions: refreshCompletionRanges(state.completions, nowMs, thresholds),
   };
 
   return { state: newState, events };
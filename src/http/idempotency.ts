@@ -0,0 +1,81 @@
+/**
+ * Idempotency-Key support for mutating (POST) routes.
+ *
+ * A client may send `Idempotency-Key: <unique string>` with any POST. The
+ * key is reserved per player in PlayerStateDO before the request runs, and
+ * its first final response is cached there: a retried request with the same
+ * key gets the original response back instead of running again, and a retry
+ * that arrives while the first is still running is turned away.
+ */
+
+/**
+ * Request header carrying the client's idempotency key.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Response header set on replayed responses.
+ */
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Longest accepted idempotency key.
+ */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * How long a reserved key waits for its response before another request may
+ * take it over (the first request was lost, e.g. the worker was evicted).
+ */
+export const IDEMPOTENCY_RESERVATION_MS = 60 * 1000;
+
+/**
+ * CachedResponse: The original response to a request with an idempotency key.
+ */
+export interface CachedResponse {
+  /** Method, path and body hash of the original request (a key only replays for the same request) */
+  fingerprint: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+  createdAtMs: number;
+}
+
+/**
+ * Result of reserving an idempotency key before running a request.
+ * - reserved: the key is new; run the request, then save or release its response
+ * - replay: the key already has a response for this request
+ * - in_progress: the same request is still running under this key
+ * - conflict: the key was used for a different request
+ */
+export type IdempotencyReservation =
+  | { kind: 'reserved' }
+  | { kind: 'replay'; response: CachedResponse }
+  | { kind: 'in_progress' }
+  | { kind: 'conflict' };
+
+/**
+ * Identifies what a request does, so a key reused for a different request is rejected.
+ * Combines method, path and a SHA-256 hash of the body; the body is read
+ * from a clone, so the request can still be handled afterwards.
+ */
+export async function requestFingerprint(request: Request): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await request.clone().arrayBuffer());
+  const bodyHash = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${request.method} ${new URL(request.url).pathname} ${bodyHash}`;
+}
+
+/**
+ * Checks whether a key is usable (non-empty, bounded length).
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.trim().length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH;
+}
+
+/**
+ * Only final outcomes are cached. Server errors stay retryable, and so do
+ * conflicts (409): they depend on state that may have changed by the retry.
+ */
+export function isCacheableStatus(status: number): boolean {
+  return status < 500 && status !== 409;
+}
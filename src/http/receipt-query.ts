@@ -0,0 +1,194 @@
+/**
+ * Receipt listing: cursor pagination and filters for GET /api/receipts.
+ *
+ * Receipts are listed most recent first. A page ends with an opaque cursor
+ * naming its last receipt; passing it back returns the receipts after it, so
+ * pages stay stable while new receipts are added. A range filter is resolved
+ * to creation time bounds once, on the first page, and the cursor carries
+ * them, so the window does not move while a client walks the pages.
+ */
+
+import type { QuestType } from '../domain/quests';
+import type { TimeRange } from '../domain/state';
+import type { TimeThresholds } from '../domain/config';
+import type { Receipt } from './receipt';
+import type { ValidationIssue } from './validation';
+
+/**
+ * Largest page a client may ask for.
+ */
+export const MAX_RECEIPT_PAGE_SIZE = 100;
+
+const QUEST_TYPES: QuestType[] = ['agency', 'courage', 'order'];
+const TIME_RANGES: TimeRange[] = ['recent', 'gap', 'long_gap'];
+
+/**
+ * CreatedAtBounds: Inclusive creation time bounds of a range filter.
+ */
+export interface CreatedAtBounds {
+  minCreatedAtMs?: number;
+  maxCreatedAtMs?: number;
+}
+
+/**
+ * ReceiptCursor: Position after the last receipt of a page.
+ * bounds are the range filter's bounds as resolved for the first page.
+ */
+export interface ReceiptCursor {
+  createdAtMs: number;
+  id: string;
+  bounds?: CreatedAtBounds;
+}
+
+/**
+ * ReceiptQuery: One page request, as run by PlayerStateDO.
+ * Creation time bounds are inclusive.
+ */
+export interface ReceiptQuery extends CreatedAtBounds {
+  limit: number;
+  after?: ReceiptCursor;
+  questType?: QuestType;
+  questId?: string;
+}
+
+/**
+ * ReceiptPage: One page of receipts, most recent first.
+ * nextCursor is null on the last page.
+ */
+export interface ReceiptPage {
+  receipts: Receipt[];
+  nextCursor: string | null;
+}
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+/**
+ * Encodes a cursor as an opaque URL-safe string.
+ */
+export function encodeReceiptCursor(cursor: ReceiptCursor): string {
+  const position = [cursor.createdAtMs, cursor.id];
+  const fields = cursor.bounds
+    ? [...position, cursor.bounds.minCreatedAtMs ?? null, cursor.bounds.maxCreatedAtMs ?? null]
+    : position;
+
+  return btoa(JSON.stringify(fields))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor, or returns null if it was not made by encodeReceiptCursor.
+ */
+export function decodeReceiptCursor(value: string): ReceiptCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    const isBound = (bound: unknown) => bound === null || Number.isFinite(bound);
+    if (
+      Array.isArray(decoded) &&
+      (decoded.length === 2 || (decoded.length === 4 && isBound(decoded[2]) && isBound(decoded[3]))) &&
+      Number.isFinite(decoded[0]) &&
+      typeof decoded[1] === 'string'
+    ) {
+      const cursor: ReceiptCursor = { createdAtMs: decoded[0], id: decoded[1] };
+      if (decoded.length === 4) {
+        cursor.bounds = {
+          ...(decoded[2] !== null && { minCreatedAtMs: decoded[2] }),
+          ...(decoded[3] !== null && { maxCreatedAtMs: decoded[3] }),
+        };
+      }
+      return cursor;
+    }
+  } catch {
+    // Not base64 or not JSON
+  }
+  return null;
+}
+
+// ============================================================================
+// Query Parameters
+// ============================================================================
+
+/**
+ * Converts a coarse time range into creation time bounds, using the same
+ * thresholds as the player's time context (elapsed below recentMs is
+ * 'recent', below longGapMs is 'gap', anything older is 'long_gap').
+ */
+export function rangeBounds(
+  range: TimeRange,
+  nowMs: number,
+  thresholds: TimeThresholds
+): CreatedAtBounds {
+  switch (range) {
+    case 'recent':
+      return { minCreatedAtMs: nowMs - thresholds.recentMs + 1 };
+    case 'gap':
+      return { minCreatedAtMs: nowMs - thresholds.longGapMs + 1, maxCreatedAtMs: nowMs - thresholds.recentMs };
+    case 'long_gap':
+      return { maxCreatedAtMs: nowMs - thresholds.longGapMs };
+  }
+}
+
+/**
+ * Reads a receipt query from GET /api/receipts parameters:
+ * `limit`, `cursor`, `questType`, `questId` and `range` (recent, gap, long_gap).
+ * A range is resolved against nowMs on the first page; later pages reuse the
+ * bounds their cursor carries.
+ * Returns every invalid parameter instead of a query when any is invalid.
+ */
+export function parseReceiptQuery(
+  params: URLSearchParams,
+  nowMs: number,
+  thresholds: TimeThresholds,
+  defaultLimit: number
+): { ok: true; query: ReceiptQuery } | { ok: false; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const query: ReceiptQuery = { limit: defaultLimit };
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_RECEIPT_PAGE_SIZE) {
+      issues.push({ field: 'limit', message: `must be an integer from 1 to ${MAX_RECEIPT_PAGE_SIZE}` });
+    }
+    query.limit = value;
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor !== null) {
+    const after = decodeReceiptCursor(cursor);
+    if (!after) {
+      issues.push({ field: 'cursor', message: 'is not a cursor from a previous page' });
+    }
+    query.after = after ?? undefined;
+  }
+
+  const questType = params.get('questType');
+  if (questType !== null) {
+    if (!QUEST_TYPES.includes(questType as QuestType)) {
+      issues.push({ field: 'questType', message: `must be one of: ${QUEST_TYPES.join(', ')}` });
+    }
+    query.questType = questType as QuestType;
+  }
+
+  const questId = params.get('questId');
+  if (questId !== null) {
+    if (questId.trim().length === 0) {
+      issues.push({ field: 'questId', message: 'must be a non-empty string' });
+    }
+    query.questId = questId;
+  }
+
+  const range = params.get('range');
+  if (range !== null) {
+    if (!TIME_RANGES.includes(range as TimeRange)) {
+      issues.push({ field: 'range', message: `must be one of: ${TIME_RANGES.join(', ')}` });
+    } else {
+      Object.assign(query, query.after?.bounds ?? rangeBounds(range as TimeRange, nowMs, thresholds));
+    }
+  }
+
+  return issues.length === 0 ? { ok: true, query } : { ok: false, issues };
+}
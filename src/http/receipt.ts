@@ -2,8 +2,9 @@
  * Receipt types for shareable quest completion artifacts.
  */
 
-import type { QuestType } from '../domain/quests';
-import type { NarrativeTone } from '../domain/narrative';
+import type { QuestNodeWithAvailability, QuestType } from '../domain/quests';
+import type { NarrativeSummary } from '../domain/narrative';
+import type { NarrativeTone } from '../domain/events';
 
 /**
  * Receipt: A lightweight, shareable artifact created on quest completion.
@@ -33,3 +34,24 @@ export function generateDefaultShareText(questType: QuestType): string {
       return 'Removed friction. Order creates space for action.';
   }
 }
+
+/**
+ * Creates the receipt for a completed quest from its narrative summary.
+ * Falls back to calm defaults when the completion produced no narrative.
+ */
+export function createReceipt(
+  quest: QuestNodeWithAvailability,
+  narrative: NarrativeSummary | null,
+  nowMs: number
+): Receipt {
+  return {
+    id: crypto.randomUUID(),
+    createdAtMs: nowMs,
+    questId: quest.id,
+    questType: quest.type,
+    tone: narrative?.tone || 'calm',
+    title: narrative?.title || 'Action completed',
+    line: narrative?.line || 'You took a step forward.',
+    shareText: narrative?.shareText || generateDefaultShareText(quest.type),
+  };
+}
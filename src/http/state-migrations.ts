@@ -0,0 +1,169 @@
+/**
+ * Schema migrations for stored player state.
+ *
+ * Stored state carries a schemaVersion. Documents written by older code are
+ * upgraded on read, one version at a time, until they reach
+ * CURRENT_SCHEMA_VERSION. Documents saved before versioning existed have no
+ * schemaVersion; their version is inferred from their shape.
+ *
+ * Schema history:
+ * - 1: completion tracked as completedQuestIds + completedAtByQuestId
+ *      (activeQuest and unlockedQuests were added later as optional fields;
+ *      the baseline code saved a started quest without recording which)
+ * - 2: completion tracked as per-quest completion records (`completions`)
+ */
+
+import type { CompletionHistory } from '../domain/state';
+import type { QuestCatalog } from '../domain/engine';
+import { CURRENT_SCHEMA_VERSION, type StoredState } from './state-serialization';
+
+/**
+ * A stored state document of any version.
+ */
+export type StoredDocument = Record<string, unknown>;
+
+/**
+ * StateMigration: Upgrades a document from one schema version to the next.
+ */
+export interface StateMigration {
+  from: number;
+  description: string;
+  migrate(document: StoredDocument): StoredDocument;
+}
+
+/**
+ * Result of migrating a stored document.
+ * fromVersion is the version the document had before migrating.
+ */
+export type MigrationResult =
+  | { ok: true; state: StoredState; fromVersion: number }
+  | { ok: false; error: string };
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Builds completion records from legacy completion tracking.
+ * Counts were never stored, so each quest is recorded as completed once.
+ * Ranges start as 'recent' and are corrected by the next time tick.
+ */
+function completionsFromLegacy(completedAtByQuestId: Record<string, number>): CompletionHistory {
+  const completions: CompletionHistory = {};
+  for (const [questId, completedAtMs] of Object.entries(completedAtByQuestId)) {
+    completions[questId] = {
+      questId,
+      count: 1,
+      lastCompletedAtMs: completedAtMs,
+      lastCompletedRange: 'recent',
+    };
+  }
+  return completions;
+}
+
+/**
+ * Finds a quest start saved by baseline code, which did not record which
+ * quest was started. That code had no active quest and no setting aside:
+ * starting only moved lastMeaningfulActionMs, and completing moved it to the
+ * completion time. A document without an active quest whose last meaningful
+ * action is later than every completion was therefore saved mid-quest.
+ */
+function untrackedStartMs(document: StoredDocument, completedAtByQuestId: Record<string, number>): number | undefined {
+  const timeContext = document.timeContext as { lastMeaningfulActionMs?: number } | undefined;
+  const lastActionMs = timeContext?.lastMeaningfulActionMs;
+  if (document.activeQuest !== undefined || typeof lastActionMs !== 'number') {
+    return undefined;
+  }
+  return Object.values(completedAtByQuestId).every((completedAtMs) => completedAtMs < lastActionMs) ? lastActionMs : undefined;
+}
+
+/**
+ * STATE_MIGRATIONS: Every migration, ordered by the version it upgrades from.
+ */
+export const STATE_MIGRATIONS: StateMigration[] = [
+  {
+    from: 1,
+    description: 'Replace completedQuestIds/completedAtByQuestId with completion records; keep an untracked start',
+    migrate: (document) => {
+      const { completedQuestIds, completedAtByQuestId, ...rest } = document;
+      const completedAt = (completedAtByQuestId as Record<string, number> | undefined) ?? {};
+      const startedAtMs = untrackedStartMs(rest, completedAt);
+      return {
+        ...rest,
+        completions: completionsFromLegacy(completedAt),
+        ...(startedAtMs !== undefined && { untrackedStartMs: startedAtMs }),
+      };
+    },
+  },
+];
+
+// ============================================================================
+// Migrating
+// ============================================================================
+
+/**
+ * Reads a document's schema version.
+ * Unversioned documents are version 2 if they have completion records, else 1.
+ */
+export function storedSchemaVersion(document: StoredDocument): number {
+  if (typeof document.schemaVersion === 'number') {
+    return document.schemaVersion;
+  }
+  return document.completions !== undefined ? 2 : 1;
+}
+
+/**
+ * Upgrades a stored document to CURRENT_SCHEMA_VERSION.
+ *
+ * Fails (without throwing) for non-objects, for documents newer than this
+ * code, and for versions with no migration. The result is not validated;
+ * callers storing it should run validateStoredState.
+ */
+export function migrateStoredState(
+  input: unknown,
+  migrations: StateMigration[] = STATE_MIGRATIONS
+): MigrationResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { ok: false, error: 'Stored state must be an object' };
+  }
+
+  const fromVersion = storedSchemaVersion(input as StoredDocument);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, error: `Stored state version ${fromVersion} is newer than ${CURRENT_SCHEMA_VERSION}` };
+  }
+
+  let document: StoredDocument = { ...input, schemaVersion: fromVersion };
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = migrations.find((candidate) => candidate.from === version);
+    if (!migration) {
+      return { ok: false, error: `No migration from stored state version ${version}` };
+    }
+    document = { ...migration.migrate(document), schemaVersion: version + 1 };
+  }
+
+  return { ok: true, state: document as unknown as StoredState, fromVersion };
+}
+
+// ============================================================================
+// Derived Fields
+// ============================================================================
+
+/**
+ * Adds the quests unlocked by each completed quest's consequence to
+ * unlockedQuests.
+ *
+ * Documents saved before a quest declared its unlocks record the completion
+ * but not the unlock, and a quest that cannot be repeated would never unlock
+ * its follow-up again. Set-aside unlocks are not recorded and cannot be
+ * derived. Returns the state unchanged when nothing is missing.
+ */
+export function withCompletionUnlocks(state: StoredState, catalog: QuestCatalog): StoredState {
+  const unlocked = new Set(state.unlockedQuests ?? []);
+  const missing = Object.keys(state.completions)
+    .flatMap((questId) => catalog.getQuestById(questId)?.consequence.unlocksQuests ?? [])
+    .filter((questId) => !unlocked.has(questId));
+  if (missing.length === 0) {
+    return state;
+  }
+  return { ...state, unlockedQuests: [...unlocked, ...new Set(missing)] };
+}
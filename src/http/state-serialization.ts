@@ -5,61 +5,84 @@
  * storage-friendly format (with string[] flags).
  */
 
-import type { CharacterState, TimeContext } from '../domain/state';
+import type { ActiveQuest, CharacterState, CompletionHistory, MomentumState, TimeContext } from '../domain/state';
+
+/**
+ * Version of the StoredState shape written by this code.
+ * Bump it together with a new migration in state-migrations.ts.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
 
 /**
  * Storage-friendly state format (flags as string[]).
+ * Older stored shapes are upgraded by migrateStoredState before use.
  */
 export interface StoredState {
+  schemaVersion: number;
   stats: { agency: number; courage: number; order: number };
   flags: string[];
   timeContext: TimeContext;
-  completedQuestIds: string[];
-  completedAtByQuestId: Record<string, number>;
+  completions: CompletionHistory;
+  activeQuest?: ActiveQuest;
+  unlockedQuests?: string[];
+  /**
+   * When a quest was started by baseline code that did not record which one
+   * (set by the schema 1 migration). PlayerStateDO lets the next completion
+   * or set aside resolve it; CharacterState does not carry it, so the next
+   * committed transition drops it.
+   */
+  untrackedStartMs?: number;
 }
 
 /**
  * Converts CharacterState to storage format (Set → string[]).
- * Note: completedQuestIds and completedAtByQuestId are managed separately
- * and should be merged when calling this function.
  */
-export function serializeState(
-  state: CharacterState,
-  completedQuestIds: string[] = [],
-  completedAtByQuestId: Record<string, number> = {}
-): StoredState {
+export function serializeState(state: CharacterState): StoredState {
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     stats: { ...state.stats },
     flags: Array.from(state.flags),
     timeContext: { ...state.timeContext },
-    completedQuestIds: [...completedQuestIds],
-    completedAtByQuestId: { ...completedAtByQuestId },
+    completions: { ...state.completions },
+    activeQuest: state.activeQuest ? { ...state.activeQuest } : undefined,
+    unlockedQuests: Array.from(state.unlockedQuests ?? []),
   };
 }
 
 /**
  * Converts stored state format to CharacterState (string[] → Set).
+ * Expects the current schema (see migrateStoredState for older documents).
+ * States without unlockedQuests start with nothing unlocked.
  */
 export function deserializeState(stored: StoredState): CharacterState {
   return {
     stats: { ...stored.stats },
     flags: new Set(stored.flags),
     timeContext: { ...stored.timeContext },
+    activeQuest: stored.activeQuest ? { ...stored.activeQuest } : undefined,
+    unlockedQuests: new Set(stored.unlockedQuests ?? []),
+    completions: { ...stored.completions },
   };
 }
 
 /**
  * Converts CharacterState to JSON-friendly format for API responses.
  * Flags are converted to string[] for JSON serialization.
+ * The active quest is included so the frontend can resume it after reload.
+ * Momentum is exposed as its label only so the frontend can shift tone.
  */
 export function stateToJSON(state: CharacterState): {
   stats: { agency: number; courage: number; order: number };
   flags: string[];
   timeContext: TimeContext;
+  momentum: MomentumState;
+  activeQuest?: ActiveQuest;
 } {
   return {
     stats: { ...state.stats },
     flags: Array.from(state.flags),
     timeContext: { ...state.timeContext },
+    momentum: state.timeContext.momentum ?? 'absent',
+    activeQuest: state.activeQuest ? { ...state.activeQuest } : undefined,
   };
 }
@@ -0,0 +1,36 @@
+/**
+ * Player time zone for daily rules (the "one step per day" rest).
+ *
+ * A time zone saved with POST /api/timezone wins. Otherwise the client's
+ * `X-Timezone` header is used (browsers can send
+ * `Intl.DateTimeFormat().resolvedOptions().timeZone`), then UTC.
+ */
+
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../domain/calendar';
+
+/**
+ * Request header carrying the client's IANA time zone.
+ */
+export const TIME_ZONE_HEADER = 'X-Timezone';
+
+/**
+ * Where the time zone in use came from.
+ */
+export type TimeZoneSource = 'player' | 'header' | 'default';
+
+/**
+ * Picks the time zone for a request: the player's saved zone, then a valid
+ * header value, then UTC.
+ */
+export function resolveTimeZone(
+  saved: string | undefined,
+  headerValue: string | null
+): { timeZone: string; source: TimeZoneSource } {
+  if (saved !== undefined && isValidTimeZone(saved)) {
+    return { timeZone: saved, source: 'player' };
+  }
+  if (headerValue !== null && isValidTimeZone(headerValue.trim())) {
+    return { timeZone: headerValue.trim(), source: 'header' };
+  }
+  return { timeZone: DEFAULT_TIME_ZONE, source: 'default' };
+}
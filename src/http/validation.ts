@@ -0,0 +1,329 @@
+/**
+ * Runtime validation for data crossing Durable Object boundaries.
+ *
+ * Durable Object storage keeps whatever it is given, so every write of
+ * StoredState, Receipt, QuestAction, ShareLinkData and per-player engine
+ * overrides is checked here first.
+ * Validators never throw: they return the typed value or every invalid field.
+ */
+
+import { CURRENT_SCHEMA_VERSION, type StoredState } from './state-serialization';
+import type { Receipt } from './receipt';
+import type { QuestAction } from './quest-action';
+import type { ShareLinkData } from './share-link';
+import type { MomentumState, StatKey, TimeRange } from '../domain/state';
+import type { QuestType } from '../domain/quests';
+import type { NarrativeTone } from '../domain/events';
+import type { EngineConfigOverrides, TimeThresholds } from '../domain/config';
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * ValidationIssue: One invalid field, addressed by its dotted path (e.g. "stats.agency").
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * ValidationResult: The validated value, or every issue found.
+ */
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Builds the structured 400 response for failed validation.
+ */
+export function validationErrorResponse(issues: ValidationIssue[], headers?: HeadersInit): Response {
+  return Response.json({ error: 'Validation failed', issues }, { status: 400, headers });
+}
+
+// ============================================================================
+// Field Checks
+// ============================================================================
+
+const STAT_KEYS: StatKey[] = ['agency', 'courage', 'order'];
+const TIME_RANGES: TimeRange[] = ['recent', 'gap', 'long_gap'];
+const MOMENTUM_STATES: MomentumState[] = ['present', 'fading', 'absent'];
+const QUEST_TYPES: QuestType[] = ['agency', 'courage', 'order'];
+const NARRATIVE_TONES: NarrativeTone[] = ['calm', 'warm', 'observational'];
+const ENGINE_OVERRIDE_KEYS: Array<keyof EngineConfigOverrides> = ['timeThresholdsMs'];
+const TIME_THRESHOLD_KEYS: Array<keyof TimeThresholds> = ['recentMs', 'longGapMs'];
+const MAX_SHARE_TEXT_LENGTH = 180;
+
+type Fields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Checks that a field is an object, recording an issue otherwise.
+ */
+function checkRecord(value: unknown, field: string, issues: ValidationIssue[]): value is Fields {
+  if (!isRecord(value)) {
+    issues.push({ field, message: 'must be an object' });
+    return false;
+  }
+  return true;
+}
+
+function checkString(
+  value: unknown,
+  field: string,
+  issues: ValidationIssue[],
+  options: { optional?: boolean; maxLength?: number } = {}
+): void {
+  if (value === undefined && options.optional) {
+    return;
+  }
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    issues.push({ field, message: 'must be a non-empty string' });
+  } else if (options.maxLength !== undefined && value.length > options.maxLength) {
+    issues.push({ field, message: `must be at most ${options.maxLength} characters` });
+  }
+}
+
+/**
+ * Checks a millisecond timestamp (finite and non-negative).
+ */
+function checkTimestamp(value: unknown, field: string, issues: ValidationIssue[], optional = false): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    issues.push({ field, message: 'must be a non-negative number of milliseconds' });
+  }
+}
+
+function checkNonNegativeInteger(value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    issues.push({ field, message: 'must be a non-negative integer' });
+  }
+}
+
+function checkOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string,
+  issues: ValidationIssue[],
+  optional = false
+): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    issues.push({ field, message: `must be one of: ${allowed.join(', ')}` });
+  }
+}
+
+function checkStringArray(value: unknown, field: string, issues: ValidationIssue[], optional = false): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ field, message: 'must be an array of strings' });
+    return;
+  }
+  value.forEach((item, index) => checkString(item, `${field}.${index}`, issues));
+}
+
+function result<T>(value: unknown, issues: ValidationIssue[]): ValidationResult<T> {
+  return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues };
+}
+
+// ============================================================================
+// StoredState
+// ============================================================================
+
+function checkStats(value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!checkRecord(value, field, issues)) {
+    return;
+  }
+  for (const key of STAT_KEYS) {
+    checkNonNegativeInteger(value[key], join(field, key), issues);
+  }
+  for (const key of Object.keys(value)) {
+    if (!STAT_KEYS.includes(key as StatKey)) {
+      issues.push({ field: join(field, key), message: 'is not a known stat' });
+    }
+  }
+}
+
+function checkTimeContext(value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!checkRecord(value, field, issues)) {
+    return;
+  }
+  checkOneOf(value.range, TIME_RANGES, join(field, 'range'), issues);
+  checkTimestamp(value.nowMs, join(field, 'nowMs'), issues);
+  checkTimestamp(value.lastMeaningfulActionMs, join(field, 'lastMeaningfulActionMs'), issues, true);
+  checkTimestamp(value.lastInitiatedMs, join(field, 'lastInitiatedMs'), issues, true);
+  checkOneOf(value.momentum, MOMENTUM_STATES, join(field, 'momentum'), issues, true);
+}
+
+function checkCompletions(value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!checkRecord(value, field, issues)) {
+    return;
+  }
+  for (const [questId, record] of Object.entries(value)) {
+    const recordField = join(field, questId);
+    if (!checkRecord(record, recordField, issues)) {
+      continue;
+    }
+    if (record.questId !== questId) {
+      issues.push({ field: join(recordField, 'questId'), message: 'must match its key' });
+    }
+    if (typeof record.count !== 'number' || !Number.isInteger(record.count) || record.count < 1) {
+      issues.push({ field: join(recordField, 'count'), message: 'must be a positive integer' });
+    }
+    checkTimestamp(record.lastCompletedAtMs, join(recordField, 'lastCompletedAtMs'), issues);
+    checkOneOf(record.lastCompletedRange, TIME_RANGES, join(recordField, 'lastCompletedRange'), issues);
+  }
+}
+
+function checkActiveQuest(value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (value === undefined || !checkRecord(value, field, issues)) {
+    return;
+  }
+  checkString(value.questId, join(field, 'questId'), issues);
+  checkTimestamp(value.startedAtMs, join(field, 'startedAtMs'), issues);
+  checkOneOf(value.status, ['in_progress'], join(field, 'status'), issues);
+}
+
+/**
+ * Validates a StoredState: the current schemaVersion, known non-negative
+ * integer stats, string flags, a well-formed timeContext, completion records,
+ * and well-formed optional parts. Older documents must be migrated first.
+ */
+export function validateStoredState(input: unknown): ValidationResult<StoredState> {
+  const issues: ValidationIssue[] = [];
+  if (!checkRecord(input, 'state', issues)) {
+    return { ok: false, issues };
+  }
+
+  if (input.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    issues.push({ field: 'schemaVersion', message: `must be ${CURRENT_SCHEMA_VERSION}` });
+  }
+  checkStats(input.stats, 'stats', issues);
+  checkStringArray(input.flags, 'flags', issues);
+  checkTimeContext(input.timeContext, 'timeContext', issues);
+  checkCompletions(input.completions, 'completions', issues);
+  checkActiveQuest(input.activeQuest, 'activeQuest', issues);
+  checkStringArray(input.unlockedQuests, 'unlockedQuests', issues, true);
+  checkTimestamp(input.untrackedStartMs, 'untrackedStartMs', issues, true);
+
+  return result(input, issues);
+}
+
+// ============================================================================
+// Receipts, Quest Actions and Share Links
+// ============================================================================
+
+/**
+ * Checks the fields a receipt shares with its public share link copy.
+ */
+function checkReceiptContent(value: Fields, path: string, issues: ValidationIssue[]): void {
+  checkOneOf(value.questType, QUEST_TYPES, join(path, 'questType'), issues);
+  checkOneOf(value.tone, NARRATIVE_TONES, join(path, 'tone'), issues);
+  checkString(value.title, join(path, 'title'), issues);
+  checkString(value.line, join(path, 'line'), issues);
+  checkString(value.shareText, join(path, 'shareText'), issues, { maxLength: MAX_SHARE_TEXT_LENGTH });
+}
+
+/**
+ * Validates a Receipt (shareText is required and at most 180 characters).
+ */
+export function validateReceipt(input: unknown): ValidationResult<Receipt> {
+  const issues: ValidationIssue[] = [];
+  if (!checkRecord(input, 'receipt', issues)) {
+    return { ok: false, issues };
+  }
+
+  checkString(input.id, 'id', issues);
+  checkTimestamp(input.createdAtMs, 'createdAtMs', issues);
+  checkString(input.questId, 'questId', issues);
+  checkReceiptContent(input, '', issues);
+
+  return result(input, issues);
+}
+
+/**
+ * Validates a QuestAction (the action text must not be blank).
+ */
+export function validateQuestAction(input: unknown): ValidationResult<QuestAction> {
+  const issues: ValidationIssue[] = [];
+  if (!checkRecord(input, 'action', issues)) {
+    return { ok: false, issues };
+  }
+
+  checkString(input.id, 'id', issues);
+  checkString(input.questId, 'questId', issues);
+  checkString(input.action, 'action', issues);
+  checkTimestamp(input.createdAtMs, 'createdAtMs', issues);
+
+  return result(input, issues);
+}
+
+/**
+ * Validates ShareLinkData (the link plus its public receipt copy).
+ */
+export function validateShareLinkData(input: unknown): ValidationResult<ShareLinkData> {
+  const issues: ValidationIssue[] = [];
+  if (!checkRecord(input, 'data', issues)) {
+    return { ok: false, issues };
+  }
+
+  if (checkRecord(input.shareLink, 'shareLink', issues)) {
+    checkString(input.shareLink.token, 'shareLink.token', issues);
+    checkString(input.shareLink.receiptId, 'shareLink.receiptId', issues);
+    checkTimestamp(input.shareLink.createdAtMs, 'shareLink.createdAtMs', issues);
+    if (input.shareLink.revoked !== undefined && typeof input.shareLink.revoked !== 'boolean') {
+      issues.push({ field: 'shareLink.revoked', message: 'must be a boolean' });
+    }
+  }
+  if (checkRecord(input.receipt, 'receipt', issues)) {
+    checkReceiptContent(input.receipt, 'receipt', issues);
+  }
+
+  return result(input, issues);
+}
+
+// ============================================================================
+// Engine Overrides
+// ============================================================================
+
+/**
+ * Validates per-player engine overrides: only known keys, and positive
+ * millisecond thresholds. Range ordering depends on the deployment's base
+ * config, so it is checked where the overrides are resolved.
+ */
+export function validateEngineOverrides(input: unknown): ValidationResult<EngineConfigOverrides> {
+  const issues: ValidationIssue[] = [];
+  if (!checkRecord(input, 'engineOverrides', issues)) {
+    return { ok: false, issues };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!ENGINE_OVERRIDE_KEYS.includes(key as keyof EngineConfigOverrides)) {
+      issues.push({ field: key, message: 'is not a known override' });
+    }
+  }
+  if (input.timeThresholdsMs !== undefined && checkRecord(input.timeThresholdsMs, 'timeThresholdsMs', issues)) {
+    for (const [key, value] of Object.entries(input.timeThresholdsMs)) {
+      const field = join('timeThresholdsMs', key);
+      if (!TIME_THRESHOLD_KEYS.includes(key as keyof TimeThresholds)) {
+        issues.push({ field, message: 'is not a known override' });
+      } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        issues.push({ field, message: 'must be a positive number of milliseconds' });
+      }
+    }
+  }
+
+  return result(input, issues);
+}
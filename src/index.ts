@@ -17,27 +17,61 @@
  * 
  * # Complete quest (uses saved cookie)
  * curl -b cookies.txt -X POST http://localhost:8787/api/quests/v1-reentry-agency-1/complete
+ *
+ * # Retry-safe completion: repeating this exact request replays the first response
+ * curl -b cookies.txt -X POST -H "Idempotency-Key: 3f1c9a" http://localhost:8787/api/quests/v1-reentry-agency-1/complete
+ * 
+ * # Or set a started quest aside instead of completing it (uses saved cookie)
+ * curl -b cookies.txt -X POST http://localhost:8787/api/quests/v1-reentry-agency-1/set-aside
  * 
  * # Verify persistence (uses saved cookie - should show updated state)
  * curl -b cookies.txt http://localhost:8787/api/state
+ * 
+ * # Explain why a quest is or isn't offered (requires DEBUG_TOKEN in .dev.vars)
+ * curl -b cookies.txt -H "Authorization: Bearer $DEBUG_TOKEN" http://localhost:8787/api/quests/v1-courage-expose-imperfect-work/explain
+ *
+ * # Inspect this player's event log, or rebuild state from it (requires DEBUG_TOKEN)
+ * curl -b cookies.txt -H "Authorization: Bearer $DEBUG_TOKEN" http://localhost:8787/debug/history
+ * curl -b cookies.txt -X POST -H "Authorization: Bearer $DEBUG_TOKEN" http://localhost:8787/debug/history/rebuild
+ *
+ * # Give this player a gentler cadence (requires DEBUG_TOKEN; send {} to clear)
+ * curl -b cookies.txt -X PUT -H "Authorization: Bearer $DEBUG_TOKEN" -d '{"timeThresholdsMs":{"recentMs":345600000}}' http://localhost:8787/debug/engine-overrides
  */
 
 import type { CharacterState } from './domain/state';
-import { tick, startQuest, completeQuest } from './domain/engine';
+import { getAvailableQuests, tick } from './domain/engine';
 import { catalog } from './quests/catalog';
-import { chooseQuests } from './domain/rules';
+import { explainAvailability } from './domain/rules';
+import { summarize } from './domain/narrative';
+import type { NarrativeTone } from './domain/events';
 import type { QuestNodeWithAvailability } from './domain/quests';
 import type { QuestCardDTO } from './http/dto';
 import { getCookie, setCookie } from './http/cookies';
 import { generateUUID } from './http/uuid';
-import { stateToJSON, deserializeState, serializeState, type StoredState } from './http/state-serialization';
-import { PlayerStateDO } from './infra/playerStateDO';
+import {
+	CURRENT_SCHEMA_VERSION,
+	stateToJSON,
+	deserializeState,
+	type StoredState,
+} from './http/state-serialization';
+import { PlayerStateDO, type QuestTransitionResult } from './infra/playerStateDO';
 import { ShareLinkDO } from './infra/shareLinkDO';
-import { summarize } from './domain/narrative';
-import type { Receipt } from './http/receipt';
-import { generateDefaultShareText } from './http/receipt';
 import type { ShareLink, ShareLinkData } from './http/share-link';
 import type { QuestAction } from './http/quest-action';
+import { isValidEngineConfig, withEngineOverrides } from './domain/config';
+import type { EngineConfig, EngineConfigOverrides } from './domain/config';
+import { loadConfig, type AppConfig } from './config';
+import {
+	IDEMPOTENCY_KEY_HEADER,
+	IDEMPOTENT_REPLAY_HEADER,
+	MAX_IDEMPOTENCY_KEY_LENGTH,
+	isCacheableStatus,
+	isValidIdempotencyKey,
+	requestFingerprint,
+} from './http/idempotency';
+import { validateEngineOverrides, validationErrorResponse, type ValidationResult } from './http/validation';
+import { parseReceiptQuery, type ReceiptPage } from './http/receipt-query';
+import { TIME_ZONE_HEADER, resolveTimeZone } from './http/time-zone';
 
 // Export Durable Object classes for wrangler binding
 // These must be exported for Wrangler to create bindings
@@ -55,9 +89,9 @@ export { ShareLinkDO } from './infra/shareLinkDO';
  * Persistence comes next.
  */
 
-function makeInitialState(nowMs: number): CharacterState {
+function makeInitialState(nowMs: number, engineConfig: EngineConfig): CharacterState {
 	return {
-		stats: { agency: 5, courage: 3, order: 4 },
+		stats: { ...engineConfig.initialStats },
 		flags: new Set(),
 		timeContext: {
 			range: 'long_gap',
@@ -82,40 +116,44 @@ function toQuestCardDTO(quest: QuestNodeWithAvailability): QuestCardDTO {
 }
 
 /**
- * Checks if any quest was completed today (same calendar day in UTC).
- * Returns true if any completion timestamp falls within today's date.
+ * Checks that a request carries the debug token (Authorization: Bearer <DEBUG_TOKEN>).
+ * Debug routes are disabled entirely when no DEBUG_TOKEN secret is configured.
  */
-function hasCompletedQuestToday(completedAtByQuestId: Record<string, number>, nowMs: number): boolean {
-	const todayStart = new Date(nowMs);
-	todayStart.setUTCHours(0, 0, 0, 0);
-	const todayStartMs = todayStart.getTime();
-	
-	const todayEnd = new Date(nowMs);
-	todayEnd.setUTCHours(23, 59, 59, 999);
-	const todayEndMs = todayEnd.getTime();
-	
-	// Check if any completion timestamp falls within today
-	return Object.values(completedAtByQuestId).some(
-		completedAt => completedAt >= todayStartMs && completedAt <= todayEndMs
-	);
+function isDebugAuthorized(request: Request, env: Env): boolean {
+	if (!env.DEBUG_TOKEN) {
+		return false;
+	}
+
+	const authorization = request.headers.get('Authorization') ?? '';
+	const encoder = new TextEncoder();
+	const provided = encoder.encode(authorization.replace(/^Bearer\s+/i, ''));
+	const expected = encoder.encode(env.DEBUG_TOKEN);
+
+	// Constant-time comparison (lengths must match first)
+	return provided.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(provided, expected);
 }
 
 /**
- * Gets or creates a playerId from cookies or header.
- * Returns the playerId and a Headers object with Set-Cookie to refresh/extend the cookie.
- * Always refreshes the cookie to extend its lifetime, preventing expiration.
- * 
+ * Reads an existing playerId from cookies or header (null for a new player).
+ *
  * Fallback: Also checks X-Player-Id header for mobile Safari compatibility
  * (Safari blocks third-party cookies even with SameSite=None).
  */
-function getOrCreatePlayerId(request: Request): { playerId: string; headers: Headers } {
+function readPlayerId(request: Request): string | null {
 	const cookieHeader = request.headers.get('Cookie');
-	let playerId = getCookie(cookieHeader, 'playerId');
+	const playerId = getCookie(cookieHeader, 'playerId');
 
 	// Fallback: Check header for mobile Safari (cookies blocked by ITP)
-	if (!playerId) {
-		playerId = request.headers.get('X-Player-Id');
-	}
+	return playerId || request.headers.get('X-Player-Id');
+}
+
+/**
+ * Gets or creates a playerId from cookies or header.
+ * Returns the playerId and a Headers object with Set-Cookie to refresh/extend the cookie.
+ * Always refreshes the cookie to extend its lifetime, preventing expiration.
+ */
+function getOrCreatePlayerId(request: Request, config: AppConfig): { playerId: string; headers: Headers } {
+	let playerId = readPlayerId(request);
 
 	if (!playerId) {
 		// Generate new UUID
@@ -143,7 +181,7 @@ function getOrCreatePlayerId(request: Request): { playerId: string; headers: Hea
 	
 	const headersWithCookie = setCookie(headers, 'playerId', playerId, {
 		path: '/',
-		maxAge: 60 * 60 * 24 * 365, // 1 year
+		maxAge: config.cookieMaxAgeSeconds,
 		sameSite,
 		secure, // Required for SameSite=None, otherwise matches production
 		httpOnly: true, // Prevent JavaScript access
@@ -155,7 +193,7 @@ function getOrCreatePlayerId(request: Request): { playerId: string; headers: Hea
 /**
  * Gets the Durable Object stub for a player.
  */
-function getPlayerDO(env: Env, playerId: string): DurableObjectStub {
+function getPlayerDO(env: Env, playerId: string): DurableObjectStub<PlayerStateDO> {
 	const id = env.PLAYER_STATE_DO.idFromName(playerId);
 	return env.PLAYER_STATE_DO.get(id);
 }
@@ -163,7 +201,7 @@ function getPlayerDO(env: Env, playerId: string): DurableObjectStub {
 /**
  * Gets the Durable Object stub for a share link (keyed by token).
  */
-function getShareLinkDO(env: Env, token: string): DurableObjectStub {
+function getShareLinkDO(env: Env, token: string): DurableObjectStub<ShareLinkDO> {
 	const id = env.SHARE_LINK_DO.idFromName(token);
 	return env.SHARE_LINK_DO.get(id);
 }
@@ -184,7 +222,7 @@ function addCorsHeaders(headers: Headers, request: Request): Headers {
 		headers.set('Access-Control-Allow-Origin', origin);
 		headers.set('Access-Control-Allow-Credentials', 'true');
 		headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-		headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Player-Id');
+		headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Player-Id, X-Timezone, Idempotency-Key');
 		headers.set('Access-Control-Max-Age', '86400');
 	}
 
@@ -219,8 +257,16 @@ function generateReceiptPage(receipt: ShareLinkData['receipt']): string {
 		order: 'Order',
 	};
 
+	// The receipt's tone sets the page mood; the quest type keeps the accent color
+	const toneBackgrounds: Record<NarrativeTone, string> = {
+		calm: 'linear-gradient(135deg, #1a2228 0%, #10161a 100%)',
+		warm: 'linear-gradient(135deg, #2a1f1a 0%, #1a1510 100%)',
+		observational: 'linear-gradient(135deg, #1f1f1f 0%, #141414 100%)',
+	};
+
 	const color = typeColors[receipt.questType];
 	const label = typeLabels[receipt.questType];
+	const background = toneBackgrounds[receipt.tone];
 
 	return `<!DOCTYPE html>
 <html lang="en">
@@ -245,7 +291,7 @@ function generateReceiptPage(receipt: ShareLinkData['receipt']): string {
 			padding: 2rem;
 		}
 		.receipt-page {
-			background: linear-gradient(135deg, #2a1f1a 0%, #1a1510 100%);
+			background: ${background};
 			border: 3px solid ${color};
 			border-radius: 8px;
 			padding: 3rem;
@@ -316,63 +362,34 @@ function generateReceiptPage(receipt: ShareLinkData['receipt']): string {
 
 /**
  * Gets state from the Durable Object.
- * Returns both CharacterState and completion tracking data.
+ * Completion history travels inside CharacterState.
+ * Time is ticked forward on read so range and momentum reflect nowMs;
+ * the ticked state is only persisted when a route saves it.
+ * Per-player engine overrides stored in the DO are layered over engineConfig.
  */
 async function getStateFromDO(
-	doStub: DurableObjectStub,
-	nowMs: number
-): Promise<{ state: CharacterState; completedQuestIds: string[]; completedAtByQuestId: Record<string, number> }> {
-	const response = await doStub.fetch(new Request('http://do/get', { method: 'GET' }));
-	if (!response.ok) {
-		throw new Error(`Failed to get state from DO: ${response.status}`);
-	}
-	const data = await response.json<{ state: StoredState }>();
+	doStub: DurableObjectStub<PlayerStateDO>,
+	nowMs: number,
+	engineConfig: EngineConfig
+): Promise<{ state: CharacterState; timeZone?: string }> {
+	const data = await doStub.getState(nowMs);
+	const config = withEngineOverrides(engineConfig, data.engineOverrides);
 	return {
-		state: deserializeState(data.state),
-		completedQuestIds: data.state.completedQuestIds || [],
-		completedAtByQuestId: data.state.completedAtByQuestId || {},
+		state: tick(deserializeState(data.state), nowMs, config).state,
+		timeZone: data.timeZone,
 	};
 }
 
 /**
- * Sets state in the Durable Object.
- * Merges completion tracking data with CharacterState.
+ * Routes a request to its handler.
+ * The default export wraps this with Idempotency-Key handling.
  */
-async function setStateInDO(
-	doStub: DurableObjectStub,
-	state: CharacterState,
-	completedQuestIds: string[],
-	completedAtByQuestId: Record<string, number>
-): Promise<void> {
-	const stored = serializeState(state, completedQuestIds, completedAtByQuestId);
-	
-	const response = await doStub.fetch(
-		new Request('http://do/put', {
-			method: 'PUT',
-			body: JSON.stringify(stored),
-			headers: { 'Content-Type': 'application/json' },
-		})
-	);
-	
-	// Read response body once
-	const result = await response.json().catch(async () => {
-		const text = await response.text().catch(() => 'Unknown error');
-		return { error: text };
-	}) as { success?: boolean; error?: string };
-	
-	if (!response.ok) {
-		throw new Error(`Failed to save state: ${response.status} ${JSON.stringify(result)}`);
-	}
-	
-	if (!result || !result.success) {
-		throw new Error(`State save did not confirm success: ${JSON.stringify(result)}`);
-	}
-}
-
-export default {
+const router = {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
 		const nowMs = Date.now();
+		const config = loadConfig(env);
+		const engineConfig = config.engine;
 
 		// Handle CORS preflight
 		const preflightResponse = handleCorsPreflight(request);
@@ -382,9 +399,9 @@ export default {
 
 		// GET /api/state - returns current player state
 		if (url.pathname === '/api/state' && request.method === 'GET') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const doStub = getPlayerDO(env, playerId);
-			const state = await getStateFromDO(doStub, nowMs);
+			const state = await getStateFromDO(doStub, nowMs, engineConfig);
 
 			const responseHeaders = new Headers(cookieHeaders);
 			responseHeaders.set('Content-Type', 'application/json');
@@ -395,52 +412,85 @@ export default {
 			});
 		}
 
-		// GET /api/quests - returns 0-1 quest cards selected by quest logic from stored state
-		if (url.pathname === '/api/quests' && request.method === 'GET') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+		// GET /api/timezone - the time zone used for this player's daily rest, and where it came from
+		if (url.pathname === '/api/timezone' && request.method === 'GET') {
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const doStub = getPlayerDO(env, playerId);
-			const { state, completedQuestIds, completedAtByQuestId } = await getStateFromDO(doStub, nowMs);
+			const resolved = resolveTimeZone(await doStub.getTimeZone(), request.headers.get(TIME_ZONE_HEADER));
 
 			const responseHeaders = new Headers(cookieHeaders);
 			responseHeaders.set('Content-Type', 'application/json');
 			addCorsHeaders(responseHeaders, request);
 
-			// Check if user already completed a quest today (1 quest per day limit)
-			if (hasCompletedQuestToday(completedAtByQuestId, nowMs)) {
-				const calmNarrative = {
-					tone: 'calm' as const,
-					title: 'Rest for today',
-					line: "You've already taken a step today. Come back tomorrow for your next quest.",
-				};
-				return new Response(JSON.stringify({ quests: [], narrative: calmNarrative, playerId }), {
-					headers: responseHeaders,
-				});
+			return new Response(JSON.stringify({ ...resolved, playerId }), {
+				headers: responseHeaders,
+			});
+		}
+
+		// POST /api/timezone - save this player's IANA time zone, body: { "timeZone": "America/Los_Angeles" }
+		if (url.pathname === '/api/timezone' && request.method === 'POST') {
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+
+			let body: { timeZone?: unknown };
+			try {
+				body = await request.json();
+			} catch (error) {
+				return Response.json({ error: 'Invalid request', details: String(error) }, { status: 400 });
+			}
+
+			const doStub = getPlayerDO(env, playerId);
+			const saved = await doStub.setTimeZone(body.timeZone);
+			if (!saved.ok) {
+				return validationErrorResponse(saved.issues);
 			}
 
-			// Get all quests from catalog
-			const allQuests = catalog.listAll?.() ?? [];
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
 
-			// Filter out completed quests based on repeatability
-			const availableQuests = allQuests.filter((quest) => {
-				// If quest is completed
-				if (completedQuestIds.includes(quest.id)) {
-					// If quest is repeatable, check cooldown
-					if (quest.repeatable) {
-						const completedAt = completedAtByQuestId[quest.id];
-						if (completedAt !== undefined) {
-							const elapsed = nowMs - completedAt;
-							return elapsed >= quest.repeatable.cooldownMs;
+			return new Response(JSON.stringify({ timeZone: saved.value, source: 'player', playerId }), {
+				headers: responseHeaders,
+			});
+		}
+
+		// GET /api/quests - returns 0-1 quest cards selected by quest logic from stored state
+		if (url.pathname === '/api/quests' && request.method === 'GET') {
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const doStub = getPlayerDO(env, playerId);
+			const { state, timeZone: savedTimeZone } = await getStateFromDO(doStub, nowMs, engineConfig);
+			const { timeZone } = resolveTimeZone(savedTimeZone, request.headers.get(TIME_ZONE_HEADER));
+
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
+
+			// A started quest is resumed instead of offering a new card
+			if (state.activeQuest) {
+				const activeQuest = catalog.getQuestById(state.activeQuest.questId);
+				if (activeQuest) {
+					return new Response(
+						JSON.stringify({ quests: [toQuestCardDTO(activeQuest)], activeQuest: state.activeQuest, playerId }),
+						{
+							headers: responseHeaders,
 						}
-					}
-					// Non-repeatable quests are filtered out
-					return false;
+					);
 				}
-				// Quest not completed, available
-				return true;
-			});
+			}
 
-			// Use rules pipeline directly: filter → rank → select
-			const selectedQuests = chooseQuests(state, availableQuests, nowMs, 1);
+			// The pacing policy may suggest rest instead of a new card (one quest per local day by default)
+			const { quests: selectedQuests, events } = getAvailableQuests(
+				state,
+				catalog,
+				nowMs,
+				{ ...engineConfig, maxQuestChoices: config.questCardsPerResponse },
+				timeZone
+			);
+			const restNarrative = summarize(events, state);
+			if (restNarrative) {
+				return new Response(JSON.stringify({ quests: [], narrative: restNarrative, playerId }), {
+					headers: responseHeaders,
+				});
+			}
 
 			// Convert to DTOs (excludes consequence and availability)
 			const questCards: QuestCardDTO[] = selectedQuests.map(toQuestCardDTO);
@@ -462,35 +512,79 @@ export default {
 			});
 		}
 
+		// GET /api/quests/:id/explain - debug: why a quest is or isn't offered to this player
+		if (url.pathname.startsWith('/api/quests/') && url.pathname.endsWith('/explain') && request.method === 'GET') {
+			if (!isDebugAuthorized(request, env)) {
+				return Response.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const pathParts = url.pathname.split('/');
+			const questId = pathParts[pathParts.length - 2]; // Get quest id before '/explain'
+
+			const quest = catalog.getQuestById(questId);
+			if (!quest) {
+				return Response.json({ error: 'Quest not found' }, { status: 404 });
+			}
+
+			const doStub = getPlayerDO(env, playerId);
+			const { state, timeZone: savedTimeZone } = await getStateFromDO(doStub, nowMs, engineConfig);
+			const { timeZone } = resolveTimeZone(savedTimeZone, request.headers.get(TIME_ZONE_HEADER));
+
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
+
+			return new Response(JSON.stringify({ explanation: explainAvailability(state, quest, nowMs, timeZone, engineConfig.pacing), playerId }), {
+				headers: responseHeaders,
+			});
+		}
+
 		// POST /api/quests/:id/start - starts a quest
 		if (url.pathname.startsWith('/api/quests/') && url.pathname.endsWith('/start') && request.method === 'POST') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const pathParts = url.pathname.split('/');
 			const questId = pathParts[pathParts.length - 2]; // Get quest id before '/start'
 
 			const doStub = getPlayerDO(env, playerId);
-			const { state, completedQuestIds, completedAtByQuestId } = await getStateFromDO(doStub, nowMs);
 
-			const result = startQuest(state, questId, catalog, nowMs);
-			
-			// Save state and wait for it to complete
+			// The DO runs the engine and commits in one call (no lost or doubled writes)
+			let result: QuestTransitionResult;
 			try {
-				await setStateInDO(doStub, result.state, completedQuestIds, completedAtByQuestId);
+				result = await doStub.applyAction('start', questId, nowMs);
 			} catch (error) {
-				console.error('Failed to save state after startQuest:', error);
+				console.error('Failed to start quest in DO:', error);
 				return Response.json({ error: 'Failed to save state', details: String(error) }, { status: 500 });
 			}
 
-			const narrative = summarize(result.events, result.state);
+			if (result.outcome === 'quest_not_found') {
+				return Response.json({ error: 'Quest not found' }, { status: 404 });
+			}
 
 			const responseHeaders = new Headers(cookieHeaders);
 			responseHeaders.set('Content-Type', 'application/json');
 			addCorsHeaders(responseHeaders, request);
-			
+
+			// Another quest is already underway - point the player back to it
+			if (result.outcome === 'another_quest_in_progress') {
+				const calmNarrative = {
+					tone: 'calm' as const,
+					title: 'Already underway',
+					line: 'Another quest is in progress. Return to it when you are ready.',
+				};
+				return new Response(
+					JSON.stringify({ error: 'Another quest is in progress', activeQuest: result.state.activeQuest, narrative: calmNarrative, playerId }),
+					{
+						status: 409,
+						headers: responseHeaders,
+					}
+				);
+			}
+
 			return new Response(JSON.stringify({
-				state: stateToJSON(result.state),
+				state: stateToJSON(deserializeState(result.state)),
 				events: result.events,
-				narrative,
+				narrative: result.narrative,
 				playerId,
 			}), {
 				headers: responseHeaders,
@@ -499,93 +593,213 @@ export default {
 
 		// POST /api/quests/:id/complete - completes a quest
 		if (url.pathname.startsWith('/api/quests/') && url.pathname.endsWith('/complete') && request.method === 'POST') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const pathParts = url.pathname.split('/');
 			const questId = pathParts[pathParts.length - 2]; // Get quest id before '/complete'
 
 			const doStub = getPlayerDO(env, playerId);
-			const { state, completedQuestIds, completedAtByQuestId } = await getStateFromDO(doStub, nowMs);
 
-			const result = completeQuest(state, questId, catalog, nowMs);
-			
-			// Track completed quest
-			const updatedCompletedQuestIds = completedQuestIds.includes(questId)
-				? completedQuestIds
-				: [...completedQuestIds, questId];
-			const updatedCompletedAtByQuestId = {
-				...completedAtByQuestId,
-				[questId]: nowMs,
-			};
-			
-			// Save state and wait for it to complete
+			// The DO runs the engine, commits, and saves the receipt in one call
+			let result: QuestTransitionResult;
 			try {
-				await setStateInDO(doStub, result.state, updatedCompletedQuestIds, updatedCompletedAtByQuestId);
+				result = await doStub.applyAction('complete', questId, nowMs);
 			} catch (error) {
-				console.error('Failed to save state after completeQuest:', error);
+				console.error('Failed to complete quest in DO:', error);
 				return Response.json({ error: 'Failed to save state', details: String(error) }, { status: 500 });
 			}
 
-			const narrative = summarize(result.events, result.state);
-
-			// Generate receipt
-			const quest = catalog.getQuestById(questId);
-			if (!quest) {
+			if (result.outcome === 'quest_not_found') {
 				return Response.json({ error: 'Quest not found' }, { status: 404 });
 			}
 
-			const shareText = narrative?.shareText || generateDefaultShareText(quest.type);
-			const receipt: Receipt = {
-				id: crypto.randomUUID(),
-				createdAtMs: nowMs,
-				questId,
-				questType: quest.type,
-				tone: narrative?.tone || 'calm',
-				title: narrative?.title || 'Action completed',
-				line: narrative?.line || 'You took a step forward.',
-				shareText,
-			};
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
 
-			// Save receipt to DO
-			try {
-				const receiptResponse = await doStub.fetch(
-					new Request('http://do/receipts', {
-						method: 'POST',
-						body: JSON.stringify(receipt),
-						headers: { 'Content-Type': 'application/json' },
-					})
+			// Completion follows a start - gently redirect instead of applying consequences
+			if (result.outcome === 'quest_not_started') {
+				const calmNarrative = {
+					tone: 'calm' as const,
+					title: 'Not started yet',
+					line: 'This quest has not begun. Start it when you are ready to act.',
+				};
+				return new Response(
+					JSON.stringify({ error: 'Quest not started', activeQuest: result.state.activeQuest, narrative: calmNarrative, playerId }),
+					{
+						status: 409,
+						headers: responseHeaders,
+					}
 				);
-				if (!receiptResponse.ok) {
-					console.error('Failed to save receipt:', await receiptResponse.text());
-				}
+			}
+
+			return new Response(JSON.stringify({
+				state: stateToJSON(deserializeState(result.state)),
+				events: result.events,
+				narrative: result.narrative,
+				receipt: result.receipt,
+				playerId,
+			}), {
+				headers: responseHeaders,
+			});
+		}
+
+		// POST /api/quests/:id/set-aside - lets go of a started quest
+		if (url.pathname.startsWith('/api/quests/') && url.pathname.endsWith('/set-aside') && request.method === 'POST') {
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const pathParts = url.pathname.split('/');
+			const questId = pathParts[pathParts.length - 2]; // Get quest id before '/set-aside'
+
+			const doStub = getPlayerDO(env, playerId);
+
+			// The DO runs the engine and commits in one call
+			let result: QuestTransitionResult;
+			try {
+				result = await doStub.applyAction('set_aside', questId, nowMs);
 			} catch (error) {
-				console.error('Error saving receipt:', error);
-				// Don't fail the request if receipt save fails
+				console.error('Failed to set aside quest in DO:', error);
+				return Response.json({ error: 'Failed to save state', details: String(error) }, { status: 500 });
+			}
+
+			if (result.outcome === 'quest_not_found') {
+				return Response.json({ error: 'Quest not found' }, { status: 404 });
 			}
 
 			const responseHeaders = new Headers(cookieHeaders);
 			responseHeaders.set('Content-Type', 'application/json');
 			addCorsHeaders(responseHeaders, request);
-			
+
+			// Only a started quest can be set aside
+			if (result.outcome === 'quest_not_started') {
+				const calmNarrative = {
+					tone: 'calm' as const,
+					title: 'Nothing to set aside',
+					line: 'This quest is not underway. Nothing needs letting go.',
+				};
+				return new Response(
+					JSON.stringify({ error: 'Quest not started', activeQuest: result.state.activeQuest, narrative: calmNarrative, playerId }),
+					{
+						status: 409,
+						headers: responseHeaders,
+					}
+				);
+			}
+
 			return new Response(JSON.stringify({
-				state: stateToJSON(result.state),
+				state: stateToJSON(deserializeState(result.state)),
 				events: result.events,
-				narrative,
-				receipt,
+				narrative: result.narrative,
 				playerId,
 			}), {
 				headers: responseHeaders,
 			});
 		}
 
+		// PUT /debug/engine-overrides - debug: set this player's engine config overrides ({} clears)
+		if (url.pathname === '/debug/engine-overrides' && request.method === 'PUT') {
+			if (!isDebugAuthorized(request, env)) {
+				return Response.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const body: unknown = await request.json().catch(() => null);
+			if (!body || typeof body !== 'object') {
+				return Response.json({ error: 'Invalid engine overrides' }, { status: 400 });
+			}
+
+			// Unknown keys and non-positive thresholds are listed field by field
+			const validation = validateEngineOverrides(body);
+			if (!validation.ok) {
+				return validationErrorResponse(validation.issues);
+			}
+			const engineOverrides = validation.value;
+
+			// Overrides must still produce ordered, positive thresholds for this deployment
+			const resolved: EngineConfig = {
+				...engineConfig,
+				timeThresholdsMs: { ...engineConfig.timeThresholdsMs, ...engineOverrides.timeThresholdsMs },
+			};
+			if (!isValidEngineConfig(resolved)) {
+				return Response.json({ error: 'Invalid engine overrides' }, { status: 400 });
+			}
+
+			const doStub = getPlayerDO(env, playerId);
+			let saved: ValidationResult<EngineConfigOverrides>;
+			try {
+				saved = await doStub.setEngineOverrides(engineOverrides);
+			} catch (error) {
+				console.error('Failed to save engine overrides:', error);
+				return Response.json({ error: 'Failed to save engine overrides' }, { status: 500 });
+			}
+			if (!saved.ok) {
+				return validationErrorResponse(saved.issues);
+			}
+
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
+
+			return new Response(JSON.stringify({ engineConfig: resolved, playerId }), {
+				headers: responseHeaders,
+			});
+		}
+
+		// GET /debug/history?after=<seq> - debug: this player's event log (oldest first)
+		// POST /debug/history/snapshot - debug: snapshot the state rebuilt from the log
+		// POST /debug/history/rebuild - debug: replace stored state with the state rebuilt from the log
+		const historyRoutes: Record<
+			string,
+			{ method: string; run: (doStub: DurableObjectStub<PlayerStateDO>) => Promise<{ status: number; body: Record<string, unknown> }> }
+		> = {
+			'/debug/history': {
+				method: 'GET',
+				run: async (doStub) => ({
+					status: 200,
+					body: { events: await doStub.getEvents(Number(url.searchParams.get('after') ?? 0) || 0) },
+				}),
+			},
+			'/debug/history/snapshot': {
+				method: 'POST',
+				run: async (doStub) => {
+					const snapshot = await doStub.snapshot(nowMs);
+					return snapshot ? { status: 200, body: { snapshot } } : { status: 404, body: { error: 'No history to snapshot' } };
+				},
+			},
+			'/debug/history/rebuild': {
+				method: 'POST',
+				run: async (doStub) => {
+					const state = await doStub.rebuild();
+					return state ? { status: 200, body: { state } } : { status: 404, body: { error: 'No history to rebuild from' } };
+				},
+			},
+		};
+		const historyRoute = historyRoutes[url.pathname];
+		if (historyRoute && request.method === historyRoute.method) {
+			if (!isDebugAuthorized(request, env)) {
+				return Response.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const doStub = getPlayerDO(env, playerId);
+			const { status, body } = await historyRoute.run(doStub);
+
+			const responseHeaders = new Headers(cookieHeaders);
+			responseHeaders.set('Content-Type', 'application/json');
+			addCorsHeaders(responseHeaders, request);
+
+			return new Response(JSON.stringify({ ...body, playerId }), {
+				status,
+				headers: responseHeaders,
+			});
+		}
+
 		// GET /debug/do - debug endpoint to check DO state
 		if (url.pathname === '/debug/do' && request.method === 'GET') {
-			const { playerId } = getOrCreatePlayerId(request);
+			const { playerId } = getOrCreatePlayerId(request, config);
 			const doStub = getPlayerDO(env, playerId);
 			const doId = doStub.id.toString();
 			
 			// Try to get state directly
-			const response = await doStub.fetch(new Request('http://do/get', { method: 'GET' }));
-			const data = await response.json<{ state: StoredState }>();
+			const data = await doStub.getState(nowMs);
 			
 			return Response.json({
 				playerId,
@@ -597,12 +811,13 @@ export default {
 
 		// POST /debug/do/test-save - test saving state directly
 		if (url.pathname === '/debug/do/test-save' && request.method === 'POST') {
-			const { playerId } = getOrCreatePlayerId(request);
+			const { playerId } = getOrCreatePlayerId(request, config);
 			const doStub = getPlayerDO(env, playerId);
 			const doId = doStub.id.toString();
 			
 			// Create a test state
 			const testState: StoredState = {
+				schemaVersion: CURRENT_SCHEMA_VERSION,
 				stats: { agency: 99, courage: 99, order: 99 },
 				flags: ['test-flag'],
 				timeContext: {
@@ -610,24 +825,18 @@ export default {
 					nowMs: Date.now(),
 					lastMeaningfulActionMs: Date.now() - 1000,
 				},
-				completedQuestIds: [],
-				completedAtByQuestId: {},
+				completions: {},
 			};
 			
 			// Try to save it
-			const putResponse = await doStub.fetch(
-				new Request('http://do/put', {
-					method: 'PUT',
-					body: JSON.stringify(testState),
-					headers: { 'Content-Type': 'application/json' },
-				})
-			);
-			
-			const putResult = await putResponse.json();
+			const saved = await doStub.putState(testState);
+			if (!saved.ok) {
+				return validationErrorResponse(saved.issues);
+			}
+			const putResult = { success: true };
 			
 			// Immediately get it back
-			const getResponse = await doStub.fetch(new Request('http://do/get', { method: 'GET' }));
-			const getData = await getResponse.json<{ state: StoredState }>();
+			const getData = await doStub.getState(nowMs);
 			
 			return Response.json({
 				playerId,
@@ -638,36 +847,30 @@ export default {
 			});
 		}
 
-		// GET /api/receipts - get all receipts (most recent first) with associated actions
+		// GET /api/receipts - get a page of receipts (most recent first) with associated actions
+		// Query: limit, cursor (from nextCursor), questType, questId, range (recent | gap | long_gap)
 		if (url.pathname === '/api/receipts' && request.method === 'GET') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+			const parsed = parseReceiptQuery(url.searchParams, nowMs, config.engine.timeThresholdsMs, config.receiptPageSize);
+			if (!parsed.ok) {
+				return validationErrorResponse(parsed.issues);
+			}
 			const doStub = getPlayerDO(env, playerId);
 
-			// Fetch receipts and actions in parallel
-			const [receiptsResponse, actionsResponse] = await Promise.all([
-				doStub.fetch(new Request('http://do/receipts', { method: 'GET' })),
-				doStub.fetch(new Request('http://do/quest-actions', { method: 'GET' })),
-			]);
-
-			if (!receiptsResponse.ok) {
+			// Fetch the page, then the latest action of each quest on it
+			let page: ReceiptPage;
+			let actions: QuestAction[];
+			try {
+				page = await doStub.listReceipts(parsed.query);
+				actions = await doStub.latestQuestActions(page.receipts.map((receipt) => receipt.questId));
+			} catch (error) {
+				console.error('Failed to fetch receipts:', error);
 				return Response.json({ error: 'Failed to fetch receipts' }, { status: 500 });
 			}
-
-			const receiptsData = await receiptsResponse.json<{ receipts: Receipt[] }>();
-			const actionsData = await actionsResponse.json<{ actions: QuestAction[] }>();
-
-			// Create a map of questId -> most recent action
-			const actionsByQuestId = new Map<string, QuestAction>();
-			for (const action of actionsData.actions) {
-				// Keep only the most recent action for each quest
-				const existing = actionsByQuestId.get(action.questId);
-				if (!existing || action.createdAtMs > existing.createdAtMs) {
-					actionsByQuestId.set(action.questId, action);
-				}
-			}
+			const actionsByQuestId = new Map(actions.map((action) => [action.questId, action]));
 
 			// Attach actions to receipts
-			const receiptsWithActions = receiptsData.receipts.map((receipt) => {
+			const receiptsWithActions = page.receipts.map((receipt) => {
 				const action = actionsByQuestId.get(receipt.questId);
 				return {
 					...receipt,
@@ -679,52 +882,49 @@ export default {
 			responseHeaders.set('Content-Type', 'application/json');
 			addCorsHeaders(responseHeaders, request);
 
-			return new Response(JSON.stringify({ receipts: receiptsWithActions }), {
+			return new Response(JSON.stringify({ receipts: receiptsWithActions, nextCursor: page.nextCursor }), {
 				headers: responseHeaders,
 			});
 		}
 
 		// GET /api/receipts/:id - get a specific receipt
 		if (url.pathname.startsWith('/api/receipts/') && !url.pathname.endsWith('/share') && request.method === 'GET') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const pathParts = url.pathname.split('/');
 			const receiptId = pathParts[pathParts.length - 1];
 			const doStub = getPlayerDO(env, playerId);
 
-			const response = await doStub.fetch(new Request(`http://do/receipts/${receiptId}`, { method: 'GET' }));
+			const receipt = await doStub.getReceipt(receiptId);
 
 			const responseHeaders = new Headers(cookieHeaders);
 			responseHeaders.set('Content-Type', 'application/json');
 			addCorsHeaders(responseHeaders, request);
 
-			if (!response.ok) {
+			if (!receipt) {
 				return new Response(JSON.stringify({ error: 'Receipt not found' }), {
 					status: 404,
 					headers: responseHeaders,
 				});
 			}
 
-			return new Response(JSON.stringify(await response.json()), {
+			return new Response(JSON.stringify({ receipt }), {
 				headers: responseHeaders,
 			});
 		}
 
 		// POST /api/receipts/:id/share - create or get share link
 		if (url.pathname.startsWith('/api/receipts/') && url.pathname.endsWith('/share') && request.method === 'POST') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const pathParts = url.pathname.split('/');
 			const receiptId = pathParts[pathParts.length - 2]; // Get receipt id before '/share'
 			const doStub = getPlayerDO(env, playerId);
 
 			// Verify receipt exists for this player
-			const receiptResponse = await doStub.fetch(new Request(`http://do/receipts/${receiptId}`, { method: 'GET' }));
-			if (!receiptResponse.ok) {
+			const receipt = await doStub.getReceipt(receiptId);
+			if (!receipt) {
 				return Response.json({ error: 'Receipt not found' }, { status: 404 });
 			}
 
-			const receiptData = await receiptResponse.json<{ receipt: Receipt }>();
-			const receipt = receiptData.receipt;
-
 			// Generate token
 			const token = crypto.randomUUID();
 
@@ -754,6 +954,10 @@ export default {
 				})
 			);
 
+			// A stored receipt that no longer validates is reported field by field
+			if (saveResponse.status === 400) {
+				return new Response(saveResponse.body, { status: 400, headers: saveResponse.headers });
+			}
 			if (!saveResponse.ok) {
 				return Response.json({ error: 'Failed to create share link' }, { status: 500 });
 			}
@@ -772,7 +976,7 @@ export default {
 
 		// POST /api/quests/:id/action - record a user action for a quest
 		if (url.pathname.startsWith('/api/quests/') && url.pathname.endsWith('/action') && request.method === 'POST') {
-			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request);
+			const { playerId, headers: cookieHeaders } = getOrCreatePlayerId(request, config);
 			const pathParts = url.pathname.split('/');
 			const questId = pathParts[pathParts.length - 2]; // Get quest id before '/action'
 
@@ -794,19 +998,16 @@ export default {
 				};
 
 				// Save to DO
-				const response = await doStub.fetch(
-					new Request('http://do/quest-actions', {
-						method: 'POST',
-						body: JSON.stringify(questAction),
-						headers: { 'Content-Type': 'application/json' },
-					})
-				);
-
-				if (!response.ok) {
-					const errorText = await response.text();
-					console.error('Failed to save quest action:', errorText);
+				let saved: ValidationResult<QuestAction>;
+				try {
+					saved = await doStub.addQuestAction(questAction);
+				} catch (error) {
+					console.error('Failed to save quest action:', error);
 					return Response.json({ error: 'Failed to save action' }, { status: 500 });
 				}
+				if (!saved.ok) {
+					return validationErrorResponse(saved.issues);
+				}
 
 				const responseHeaders = new Headers(cookieHeaders);
 				responseHeaders.set('Content-Type', 'application/json');
@@ -859,3 +1060,92 @@ export default {
 		return new Response('Not Found', { status: 404 });
 	},
 };
+
+/**
+ * Handles a POST carrying an Idempotency-Key.
+ * The key is reserved in PlayerStateDO before the route runs, so a retry
+ * (same key, same method, path and body) either gets the original response replayed
+ * or, while the first request is still running, a 409 instead of running the
+ * engine a second time. A key reused for a different request is rejected.
+ * Server errors and conflicts release the key instead of being cached, so
+ * they stay retryable. Requests without a playerId are passed through: there
+ * is no player to cache for yet.
+ */
+async function handleIdempotentRequest(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	idempotencyKey: string
+): Promise<Response> {
+	if (!isValidIdempotencyKey(idempotencyKey)) {
+		return Response.json(
+			{ error: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` },
+			{ status: 400 }
+		);
+	}
+
+	const existingPlayerId = readPlayerId(request);
+	if (!existingPlayerId) {
+		return router.fetch(request, env, ctx);
+	}
+
+	const nowMs = Date.now();
+	const config = loadConfig(env);
+	const doStub = getPlayerDO(env, existingPlayerId);
+	const fingerprint = await requestFingerprint(request);
+
+	const reservation = await doStub.reserveIdempotencyKey(idempotencyKey, fingerprint, nowMs);
+	if (reservation.kind === 'conflict') {
+		return Response.json({ error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` }, { status: 422 });
+	}
+	if (reservation.kind === 'in_progress') {
+		return Response.json({ error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress` }, { status: 409 });
+	}
+	if (reservation.kind === 'replay') {
+		const cached = reservation.response;
+		const { headers: cookieHeaders } = getOrCreatePlayerId(request, config);
+		const responseHeaders = new Headers(cookieHeaders);
+		if (cached.contentType) {
+			responseHeaders.set('Content-Type', cached.contentType);
+		}
+		responseHeaders.set(IDEMPOTENT_REPLAY_HEADER, 'true');
+		addCorsHeaders(responseHeaders, request);
+
+		return new Response(cached.body, { status: cached.status, headers: responseHeaders });
+	}
+
+	let response: Response;
+	try {
+		response = await router.fetch(request, env, ctx);
+	} catch (error) {
+		await doStub.releaseIdempotencyKey(idempotencyKey);
+		throw error;
+	}
+	if (!isCacheableStatus(response.status)) {
+		await doStub.releaseIdempotencyKey(idempotencyKey);
+		return response;
+	}
+
+	const body = await response.text();
+	await doStub.saveIdempotentResponse(idempotencyKey, {
+		fingerprint,
+		status: response.status,
+		contentType: response.headers.get('Content-Type'),
+		body,
+		createdAtMs: nowMs,
+	});
+
+	return new Response(body, { status: response.status, headers: response.headers });
+}
+
+export default {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		// POST routes honor Idempotency-Key so retries replay instead of re-running
+		const idempotencyKey = request.method === 'POST' ? request.headers.get(IDEMPOTENCY_KEY_HEADER) : null;
+		if (idempotencyKey !== null) {
+			return handleIdempotentRequest(request, env, ctx, idempotencyKey);
+		}
+
+		return router.fetch(request, env, ctx);
+	},
+};
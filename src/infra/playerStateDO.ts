@@ -3,34 +3,178 @@
  *
  * This DO maintains persistent state for each player across requests.
  * State is stored in DO storage and rehydrated on each request.
+ * Every committed transition also appends its events to an ordered log in
+ * SQLite, so state can be audited and rebuilt from snapshots plus events.
+ * Completion records, receipts and quest actions are SQLite rows too, so one
+ * insert never rewrites the rest of a player's history.
+ * The worker calls typed RPC methods on the stub (no fetch routing).
+ * Quest actions run here, so each read-modify-write happens under the DO's
+ * input gate and concurrent requests cannot interleave.
  *
  * Follows Cloudflare's recommended pattern:
  * https://developers.cloudflare.com/durable-objects/best-practices/access-durable-objects-storage/
  */
 
 import { DurableObject } from 'cloudflare:workers';
-import type { CharacterState } from '../domain/state';
-import { serializeState, deserializeState, type StoredState } from '../http/state-serialization';
-import type { Receipt } from '../http/receipt';
+import type { CharacterState, CompletionHistory, Stats, TimeRange } from '../domain/state';
+import type { QuestType } from '../domain/quests';
+import { withEngineOverrides, type EngineConfig, type EngineConfigOverrides, type TimeThresholds } from '../domain/config';
+import type { EngineEvent, NarrativeTone } from '../domain/events';
+import { tick, startQuest, completeQuest, setAsideQuest, isQuestInProgress } from '../domain/engine';
+import { foldEvents, type EventRecord } from '../domain/history';
+import { summarize, type NarrativeSummary } from '../domain/narrative';
+import { isValidTimeZone } from '../domain/calendar';
+import { isQuestAvailable, isQuestRepeatReady } from '../domain/rules';
+import { catalog, narrativeFragments } from '../quests/catalog';
+import { loadConfig, type AppConfig } from '../config';
+import {
+  CURRENT_SCHEMA_VERSION,
+  serializeState,
+  deserializeState,
+  type StoredState,
+} from '../http/state-serialization';
+import { migrateStoredState, withCompletionUnlocks } from '../http/state-migrations';
+import { createReceipt, type Receipt } from '../http/receipt';
+import { IDEMPOTENCY_RESERVATION_MS, type CachedResponse, type IdempotencyReservation } from '../http/idempotency';
 import type { QuestAction } from '../http/quest-action';
+import { encodeReceiptCursor, type ReceiptPage, type ReceiptQuery } from '../http/receipt-query';
+import {
+  validateStoredState,
+  validateReceipt,
+  validateQuestAction,
+  validateEngineOverrides,
+  type ValidationResult,
+} from '../http/validation';
 
 /**
  * Default state for new players.
  */
-function makeDefaultState(nowMs: number): StoredState {
+function makeDefaultState(nowMs: number, initialStats: Stats): StoredState {
   return {
-    stats: { agency: 5, courage: 3, order: 4 },
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    stats: { ...initialStats },
     flags: [],
     timeContext: {
       range: 'long_gap',
       nowMs,
       lastMeaningfulActionMs: undefined,
     },
-    completedQuestIds: [],
-    completedAtByQuestId: {},
+    completions: {},
   };
 }
 
+/**
+ * Returns the validated value of an internal write, throwing if it is invalid.
+ * Internal writes come from the engine, so an invalid one is a bug, not bad input.
+ */
+function assertValid<T>(result: ValidationResult<T>, what: string): T {
+  if (!result.ok) {
+    const fields = result.issues.map((issue) => `${issue.field} ${issue.message}`).join('; ');
+    throw new Error(`Refusing to store invalid ${what}: ${fields}`);
+  }
+  return result.value;
+}
+
+/**
+ * Upgrades a stored document to the current schema, throwing if it cannot be
+ * migrated or is invalid after migrating (stored data this code cannot read).
+ * Quests unlocked by recorded completions are added if they are missing.
+ */
+function upgradeStoredState(document: unknown, what: string): StoredState {
+  const migrated = migrateStoredState(document);
+  if (!migrated.ok) {
+    throw new Error(`Cannot read ${what}: ${migrated.error}`);
+  }
+  return assertValid(validateStoredState(withCompletionUnlocks(migrated.state, catalog)), what);
+}
+
+/**
+ * Converts a receipts table row to a Receipt.
+ */
+function receiptFromRow(row: ReceiptRow): Receipt {
+  return {
+    id: row.id,
+    createdAtMs: row.created_at_ms,
+    questId: row.quest_id,
+    questType: row.quest_type as QuestType,
+    tone: row.tone as NarrativeTone,
+    title: row.title,
+    line: row.line,
+    shareText: row.share_text,
+  };
+}
+
+/**
+ * Commit payload: the new state plus the events of the transition that produced it.
+ */
+interface StateCommit {
+  state: StoredState;
+  /** When the transition ran, in milliseconds */
+  atMs: number;
+  /** Quest the transition acted on */
+  questId?: string;
+  /** Time thresholds the transition's tick used */
+  timeThresholdsMs: TimeThresholds;
+  events: EngineEvent[];
+}
+
+/**
+ * Snapshot metadata (the state itself is only read when rebuilding).
+ */
+export interface SnapshotInfo {
+  /** Last event seq included in the snapshot (0 = before any event) */
+  seq: number;
+  atMs: number;
+}
+
+/**
+ * Quest action run inside the DO.
+ */
+export type QuestTransitionAction = 'start' | 'complete' | 'set_aside';
+
+/**
+ * Why a quest transition was or was not applied.
+ * - applied: the engine ran and the result was committed
+ * - quest_not_found: the quest is not in the catalog
+ * - another_quest_in_progress: a different quest is underway (start only)
+ * - quest_not_started: the quest is not underway (complete and set aside)
+ */
+export type QuestTransitionOutcome = 'applied' | 'quest_not_found' | 'another_quest_in_progress' | 'quest_not_started';
+
+/**
+ * Result of a quest transition RPC.
+ * When not applied, state is the current (ticked) state and nothing was written.
+ */
+export interface QuestTransitionResult {
+  outcome: QuestTransitionOutcome;
+  state: StoredState;
+  events: EngineEvent[];
+  narrative: NarrativeSummary | null;
+  /** Receipt saved for a completion */
+  receipt?: Receipt;
+}
+
+/**
+ * Status stored for a reserved idempotency key whose request is still running.
+ */
+const RESERVED_STATUS = 0;
+
+type EventRow = { seq: number; at_ms: number; quest_id: string | null; payload: string; time_thresholds: string | null };
+type CompletionRow = { quest_id: string; count: number; last_completed_at_ms: number; last_completed_range: string };
+type ReceiptRow = {
+  id: string;
+  created_at_ms: number;
+  quest_id: string;
+  quest_type: string;
+  tone: string;
+  title: string;
+  line: string;
+  share_text: string;
+};
+type QuestActionRow = { id: string; quest_id: string; action: string; created_at_ms: number };
+type SnapshotRow = { seq: number; at_ms: number; state: string };
+type IdempotencyRow = { fingerprint: string; status: number; content_type: string | null; body: string; created_at_ms: number };
+
 /**
  * PlayerStateDO: Durable Object that stores CharacterState for a single player.
  * 
@@ -39,138 +183,675 @@ function makeDefaultState(nowMs: number): StoredState {
 export class PlayerStateDO extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
+
+    // Player history lives in SQLite (ordered, queryable); the state document
+    // keeps stats, flags, time and the active quest
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        at_ms INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        quest_id TEXT,
+        payload TEXT NOT NULL,
+        time_thresholds TEXT
+      );
+      CREATE INDEX IF NOT EXISTS events_by_quest ON events (quest_id, seq);
+      CREATE TABLE IF NOT EXISTS completions (
+        quest_id TEXT PRIMARY KEY,
+        count INTEGER NOT NULL,
+        last_completed_at_ms INTEGER NOT NULL,
+        last_completed_range TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS receipts (
+        id TEXT PRIMARY KEY,
+        created_at_ms INTEGER NOT NULL,
+        quest_id TEXT NOT NULL,
+        quest_type TEXT NOT NULL,
+        tone TEXT NOT NULL,
+        title TEXT NOT NULL,
+        line TEXT NOT NULL,
+        share_text TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS receipts_by_time ON receipts (created_at_ms, id);
+      CREATE INDEX IF NOT EXISTS receipts_by_quest ON receipts (quest_id, created_at_ms);
+      CREATE TABLE IF NOT EXISTS quest_actions (
+        id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        created_at_ms INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS quest_actions_by_time ON quest_actions (created_at_ms, id);
+      CREATE INDEX IF NOT EXISTS quest_actions_by_quest ON quest_actions (quest_id, created_at_ms);
+      CREATE TABLE IF NOT EXISTS snapshots (
+        seq INTEGER PRIMARY KEY,
+        at_ms INTEGER NOT NULL,
+        state TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS idempotency (
+        key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        content_type TEXT,
+        body TEXT NOT NULL,
+        created_at_ms INTEGER NOT NULL
+      );
+    `);
+
+    // Event logs created before thresholds were recorded lack their column
+    const eventColumns = this.ctx.storage.sql.exec<{ name: string }>('PRAGMA table_info(events)').toArray();
+    if (!eventColumns.some((column) => column.name === 'time_thresholds')) {
+      this.ctx.storage.sql.exec('ALTER TABLE events ADD COLUMN time_thresholds TEXT');
+    }
+
+    // Receipts and quest actions used to be stored as capped arrays
+    void this.ctx.blockConcurrencyWhile(() => this.importStoredLists());
   }
 
+  /**
+   * Moves receipts and quest actions saved as arrays by older code into their tables.
+   */
+  private async importStoredLists(): Promise<void> {
+    const receipts = await this.ctx.storage.get<Receipt[]>('receipts');
+    const actions = await this.ctx.storage.get<QuestAction[]>('questActions');
+
+    // Entries that never satisfied the current shape are dropped
+    receipts?.filter((receipt) => validateReceipt(receipt).ok).forEach((receipt) => this.insertReceipt(receipt));
+    actions?.filter((action) => validateQuestAction(action).ok).forEach((action) => this.insertQuestAction(action));
+    if (receipts || actions) {
+      await this.ctx.storage.delete(['receipts', 'questActions']);
+    }
+  }
+
+  /**
+   * Returns the seq of the newest logged event (0 when the log is empty).
+   */
+  private lastEventSeq(): number {
+    const row = this.ctx.storage.sql.exec<{ seq: number | null }>('SELECT MAX(seq) AS seq FROM events').one();
+    return row.seq ?? 0;
+  }
 
   /**
-   * HTTP handler for the Durable Object.
-   * Handles GET (get state) and PUT (set state) requests.
-   * Also handles receipt operations.
-   * 
-   * Uses ctx.storage (from DurableObject base class) to access storage.
-   */
-  async fetch(request: Request): Promise<Response> {
-    const nowMs = Date.now();
-    const url = new URL(request.url);
-
-    // GET / or GET /get - get current state (returns stored format)
-    if ((url.pathname === '/' || url.pathname === '/get') && request.method === 'GET') {
-      const stored = await this.ctx.storage.get<StoredState>('state');
-      
-      if (!stored) {
-        // No state exists, return default
-        const defaultState = makeDefaultState(nowMs);
-        await this.ctx.storage.put('state', defaultState);
-        return Response.json({ state: defaultState });
-      }
-
-      // Create a copy with updated nowMs (don't mutate the stored object)
-      const stateWithUpdatedTime: StoredState = {
-        ...stored,
-        timeContext: {
-          ...stored.timeContext,
-          nowMs,
-        },
+   * Reads logged events after a seq, oldest first.
+   */
+  private readEvents(afterSeq: number): EventRecord[] {
+    return this.ctx.storage.sql
+      .exec<EventRow>('SELECT seq, at_ms, quest_id, payload, time_thresholds FROM events WHERE seq > ? ORDER BY seq', afterSeq)
+      .toArray()
+      .map((row) => ({
+        seq: row.seq,
+        atMs: row.at_ms,
+        questId: row.quest_id ?? undefined,
+        event: JSON.parse(row.payload) as EngineEvent,
+        ...(row.time_thresholds !== null && { timeThresholdsMs: JSON.parse(row.time_thresholds) as TimeThresholds }),
+      }));
+  }
+
+  /**
+   * Reads the newest snapshot, if any.
+   */
+  private latestSnapshot(): { info: SnapshotInfo; state: StoredState } | undefined {
+    const row = this.ctx.storage.sql
+      .exec<SnapshotRow>('SELECT seq, at_ms, state FROM snapshots ORDER BY seq DESC LIMIT 1')
+      .toArray()[0];
+    if (!row) {
+      return undefined;
+    }
+    return { info: { seq: row.seq, atMs: row.at_ms }, state: upgradeStoredState(JSON.parse(row.state), 'snapshot') };
+  }
+
+  /**
+   * Writes a snapshot covering every event up to the current end of the log.
+   */
+  private writeSnapshot(state: StoredState, atMs: number): SnapshotInfo {
+    const seq = this.lastEventSeq();
+    this.ctx.storage.sql.exec(
+      'INSERT OR REPLACE INTO snapshots (seq, at_ms, state) VALUES (?, ?, ?)',
+      seq,
+      atMs,
+      JSON.stringify(state)
+    );
+    return { seq, atMs };
+  }
+
+  /**
+   * Rebuilds state from the newest snapshot plus the events logged after it,
+   * ticking with the thresholds each transition ran with. Events logged
+   * before thresholds were recorded tick with this player's current overrides.
+   * Returns undefined when there is no snapshot to start from.
+   */
+  private async rebuildState(): Promise<StoredState | undefined> {
+    const snapshot = this.latestSnapshot();
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const engineConfig = await this.readEngineConfig(loadConfig(this.env));
+    const folded = foldEvents(deserializeState(snapshot.state), this.readEvents(snapshot.info.seq), catalog, engineConfig);
+    return serializeState(folded);
+  }
+
+  /**
+   * Reads completion records from the completions table.
+   */
+  private readCompletions(): CompletionHistory {
+    const completions: CompletionHistory = {};
+    for (const row of this.ctx.storage.sql.exec<CompletionRow>('SELECT * FROM completions').toArray()) {
+      completions[row.quest_id] = {
+        questId: row.quest_id,
+        count: row.count,
+        lastCompletedAtMs: row.last_completed_at_ms,
+        lastCompletedRange: row.last_completed_range as TimeRange,
       };
-      
-      return Response.json({ state: stateWithUpdatedTime });
-    }
-
-    // PUT / or PUT /put - update state (accepts stored format)
-    if ((url.pathname === '/' || url.pathname === '/put') && request.method === 'PUT') {
-      try {
-        const body = await request.json() as StoredState;
-        
-        // Save the state directly - storage.put is already persistent
-        await this.ctx.storage.put('state', body);
-        
-        return Response.json({ success: true });
-      } catch (error) {
-        console.error('Error saving state:', error);
-        return Response.json({ error: 'Invalid state format', details: String(error) }, { status: 400 });
-      }
-    }
-
-    // GET /receipts - get all receipts (most recent first)
-    if (url.pathname === '/receipts' && request.method === 'GET') {
-      const receipts = await this.ctx.storage.get<Receipt[]>('receipts') || [];
-      // Sort by createdAtMs descending (most recent first)
-      const sortedReceipts = receipts.sort((a, b) => b.createdAtMs - a.createdAtMs);
-      return Response.json({ receipts: sortedReceipts });
-    }
-
-    // GET /receipts/:id - get a specific receipt
-    if (url.pathname.startsWith('/receipts/') && request.method === 'GET') {
-      const receiptId = url.pathname.split('/').pop();
-      const receipts = await this.ctx.storage.get<Receipt[]>('receipts') || [];
-      const receipt = receipts.find((r) => r.id === receiptId);
-      
-      if (!receipt) {
-        return Response.json({ error: 'Receipt not found' }, { status: 404 });
-      }
-      
-      return Response.json({ receipt });
-    }
-
-    // POST /receipts - add a new receipt
-    if (url.pathname === '/receipts' && request.method === 'POST') {
-      try {
-        const receipt = await request.json() as Receipt;
-        const receipts = await this.ctx.storage.get<Receipt[]>('receipts') || [];
-        
-        // Add new receipt at the beginning (most recent first)
-        const updatedReceipts = [receipt, ...receipts];
-        
-        // Keep only the most recent 50
-        const cappedReceipts = updatedReceipts.slice(0, 50);
-        
-        await this.ctx.storage.put('receipts', cappedReceipts);
-        
-        return Response.json({ success: true });
-      } catch (error) {
-        console.error('Error saving receipt:', error);
-        return Response.json({ error: 'Invalid receipt format', details: String(error) }, { status: 400 });
-      }
-    }
-
-    // GET /quest-actions - get all quest actions (most recent first)
-    if (url.pathname === '/quest-actions' && request.method === 'GET') {
-      const actions = await this.ctx.storage.get<QuestAction[]>('questActions') || [];
-      // Sort by createdAtMs descending (most recent first)
-      const sortedActions = actions.sort((a, b) => b.createdAtMs - a.createdAtMs);
-      return Response.json({ actions: sortedActions });
-    }
-
-    // GET /quest-actions/:questId - get actions for a specific quest
-    if (url.pathname.startsWith('/quest-actions/') && request.method === 'GET') {
-      const questId = url.pathname.split('/').pop();
-      const actions = await this.ctx.storage.get<QuestAction[]>('questActions') || [];
-      const questActions = actions.filter((a) => a.questId === questId);
-      
-      return Response.json({ actions: questActions });
-    }
-
-    // POST /quest-actions - add a new quest action
-    if (url.pathname === '/quest-actions' && request.method === 'POST') {
-      try {
-        const action = await request.json() as QuestAction;
-        const actions = await this.ctx.storage.get<QuestAction[]>('questActions') || [];
-        
-        // Add new action at the beginning (most recent first)
-        const updatedActions = [action, ...actions];
-        
-        // Keep only the most recent 100
-        const cappedActions = updatedActions.slice(0, 100);
-        
-        await this.ctx.storage.put('questActions', cappedActions);
-        
-        return Response.json({ success: true });
-      } catch (error) {
-        console.error('Error saving quest action:', error);
-        return Response.json({ error: 'Invalid quest action format', details: String(error) }, { status: 400 });
-      }
-    }
-
-    return new Response('Method not allowed', { status: 405 });
+    }
+    return completions;
+  }
+
+  /**
+   * Reads stored state, upgrading documents saved by older code.
+   *
+   * The state document is saved without its completion records, which are
+   * rows of the completions table. A document that still holds them, needed
+   * migrating or was missing unlocks is written back in the current layout.
+   */
+  private async readStoredState(): Promise<StoredState | undefined> {
+    const document = await this.ctx.storage.get<Partial<StoredState>>('state');
+    if (document === undefined) {
+      return undefined;
+    }
+
+    const split = document.schemaVersion === CURRENT_SCHEMA_VERSION && document.completions === undefined;
+    const stored = upgradeStoredState(split ? { ...document, completions: this.readCompletions() } : document, 'state');
+    if (!split || stored.unlockedQuests?.length !== document.unlockedQuests?.length) {
+      await this.writeStoredState(stored);
+    }
+    return stored;
+  }
+
+  /**
+   * Saves a state document and replaces the completion rows with its records.
+   */
+  private async writeStoredState(state: StoredState): Promise<void> {
+    const { completions, ...document } = state;
+
+    // No awaits between the SQL writes and the state put: they commit together
+    this.ctx.storage.sql.exec('DELETE FROM completions');
+    for (const record of Object.values(completions)) {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO completions (quest_id, count, last_completed_at_ms, last_completed_range) VALUES (?, ?, ?, ?)',
+        record.questId,
+        record.count,
+        record.lastCompletedAtMs,
+        record.lastCompletedRange
+      );
+    }
+    await this.ctx.storage.put('state', document);
+  }
+
+  /**
+   * Returns the engine config with this player's overrides layered over it.
+   */
+  private async readEngineConfig(config: AppConfig): Promise<EngineConfig> {
+    const engineOverrides = await this.ctx.storage.get<EngineConfigOverrides>('engineOverrides');
+    return withEngineOverrides(config.engine, engineOverrides);
+  }
+
+  /**
+   * Reads stored state (or the default for a new player) ticked to nowMs,
+   * using this player's engine overrides, with any untracked baseline start
+   * and the engine config the tick used.
+   */
+  private async readTickedState(
+    nowMs: number,
+    config: AppConfig
+  ): Promise<{ state: CharacterState; untrackedStartMs?: number; engineConfig: EngineConfig }> {
+    const stored = await this.readStoredState();
+    const engineConfig = await this.readEngineConfig(config);
+    const state = tick(deserializeState(stored ?? makeDefaultState(nowMs, config.engine.initialStats)), nowMs, engineConfig).state;
+
+    return { state, untrackedStartMs: stored?.untrackedStartMs, engineConfig };
+  }
+
+  /**
+   * Saves state and appends the events that produced it.
+   */
+  private async commit(commit: StateCommit, config: AppConfig): Promise<void> {
+    const state = assertValid(validateStoredState(commit.state), 'state');
+
+    // The first commit snapshots the state it replaces, so history has a base to fold from
+    if (!this.latestSnapshot()) {
+      const previous = await this.readStoredState();
+      this.writeSnapshot(previous ?? makeDefaultState(commit.atMs, config.engine.initialStats), commit.atMs);
+    }
+
+    // No awaits between the SQL inserts and the state write: they commit together
+    for (const event of commit.events) {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO events (at_ms, type, quest_id, payload, time_thresholds) VALUES (?, ?, ?, ?, ?)',
+        commit.atMs,
+        event.type,
+        commit.questId ?? null,
+        JSON.stringify(event),
+        JSON.stringify(commit.timeThresholdsMs)
+      );
+    }
+    await this.writeStoredState(state);
+  }
+
+  /**
+   * Inserts a receipt row (an existing receipt with the same id is kept).
+   */
+  private insertReceipt(receipt: Receipt): void {
+    this.ctx.storage.sql.exec(
+      `INSERT OR IGNORE INTO receipts (id, created_at_ms, quest_id, quest_type, tone, title, line, share_text)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      receipt.id,
+      receipt.createdAtMs,
+      receipt.questId,
+      receipt.questType,
+      receipt.tone,
+      receipt.title,
+      receipt.line,
+      receipt.shareText
+    );
+  }
+
+  /**
+   * Inserts a quest action row (an existing action with the same id is kept).
+   */
+  private insertQuestAction(action: QuestAction): void {
+    this.ctx.storage.sql.exec(
+      'INSERT OR IGNORE INTO quest_actions (id, quest_id, action, created_at_ms) VALUES (?, ?, ?, ?)',
+      action.id,
+      action.questId,
+      action.action,
+      action.createdAtMs
+    );
+  }
+
+  /**
+   * Saves a receipt. Every receipt is kept, so players can look back over a long arc.
+   */
+  private addReceipt(receipt: Receipt): void {
+    this.insertReceipt(assertValid(validateReceipt(receipt), 'receipt'));
+  }
+
+  // ==========================================================================
+  // RPC: Quest Actions
+  // ==========================================================================
+
+  /**
+   * Runs a quest action (start, complete or set aside) as a single
+   * read-modify-write. Completions also save and return their receipt.
+   *
+   * Only storage is awaited between the read and the writes, so the input
+   * gate holds other requests to this player until the commit is done:
+   * a double-tapped completion applies once and is then rejected as not started.
+   */
+  async applyAction(action: QuestTransitionAction, questId: string, nowMs: number): Promise<QuestTransitionResult> {
+    const config = loadConfig(this.env);
+    const ticked = await this.readTickedState(nowMs, config);
+    const notApplied = (outcome: QuestTransitionOutcome): QuestTransitionResult => ({
+      outcome,
+      state: serializeState(ticked.state),
+      events: [],
+      narrative: null,
+    });
+
+    const quest = catalog.getQuestById(questId);
+    if (!quest) {
+      return notApplied('quest_not_found');
+    }
+
+    // A quest started before active quests were recorded is taken to be this one,
+    // if it could have been started then (same availability and repeat checks as an offer)
+    const startedAtMs = ticked.untrackedStartMs;
+    const resolvesUntrackedStart =
+      action !== 'start' &&
+      !ticked.state.activeQuest &&
+      startedAtMs !== undefined &&
+      isQuestAvailable(ticked.state, quest, startedAtMs) &&
+      isQuestRepeatReady(ticked.state, quest, startedAtMs);
+    const state = resolvesUntrackedStart
+      ? { ...ticked.state, activeQuest: { questId, startedAtMs, status: 'in_progress' as const } }
+      : ticked.state;
+    if (action === 'start' && state.activeQuest && !isQuestInProgress(state, questId)) {
+      return notApplied('another_quest_in_progress');
+    }
+    if (action !== 'start' && !isQuestInProgress(state, questId)) {
+      return notApplied('quest_not_started');
+    }
+
+    const result =
+      action === 'start'
+        ? startQuest(state, questId, catalog, nowMs)
+        : action === 'complete'
+          ? completeQuest(state, questId, catalog, nowMs)
+          : setAsideQuest(state, questId, catalog, nowMs);
+    const stored = serializeState(result.state);
+    const narrative = summarize(result.events, result.state, narrativeFragments);
+
+    await this.commit(
+      { state: stored, atMs: nowMs, questId, timeThresholdsMs: ticked.engineConfig.timeThresholdsMs, events: result.events },
+      config
+    );
+
+    if (action !== 'complete') {
+      return { outcome: 'applied', state: stored, events: result.events, narrative };
+    }
+
+    const receipt = createReceipt(quest, narrative, nowMs);
+    this.addReceipt(receipt);
+
+    return { outcome: 'applied', state: stored, events: result.events, narrative, receipt };
+  }
+
+  // ==========================================================================
+  // RPC: State
+  // ==========================================================================
+
+  /**
+   * Returns stored state (with nowMs set to the caller's time), this
+   * player's engine overrides and saved time zone.
+   * A new player gets the default state, saved.
+   */
+  async getState(
+    nowMs: number
+  ): Promise<{ state: StoredState; engineOverrides?: EngineConfigOverrides; timeZone?: string }> {
+    const stored = await this.readStoredState();
+
+    if (!stored) {
+      const config = loadConfig(this.env);
+      const defaultState = makeDefaultState(nowMs, config.engine.initialStats);
+      await this.writeStoredState(defaultState);
+      return { state: defaultState };
+    }
+
+    // Per-player engine overrides and time zone travel with state so ticks and daily rules use them
+    const engineOverrides = await this.ctx.storage.get<EngineConfigOverrides>('engineOverrides');
+    const timeZone = await this.ctx.storage.get<string>('timeZone');
+
+    // Return a copy with updated nowMs (don't mutate the stored object)
+    return {
+      state: { ...stored, timeContext: { ...stored.timeContext, nowMs } },
+      engineOverrides,
+      timeZone,
+    };
+  }
+
+  /**
+   * Replaces stored state without logging events (debug only).
+   * Older schema versions are migrated first. Invalid state is not stored;
+   * the result lists each invalid field.
+   */
+  async putState(state: unknown): Promise<ValidationResult<StoredState>> {
+    const migrated = migrateStoredState(state);
+    if (!migrated.ok) {
+      return { ok: false, issues: [{ field: 'schemaVersion', message: migrated.error }] };
+    }
+
+    const validation = validateStoredState(migrated.state);
+    if (validation.ok) {
+      await this.writeStoredState(validation.value);
+    }
+    return validation;
+  }
+
+  // ==========================================================================
+  // RPC: History
+  // ==========================================================================
+
+  /**
+   * Returns logged events after a seq, oldest first.
+   */
+  getEvents(afterSeq = 0): EventRecord[] {
+    return this.readEvents(afterSeq);
+  }
+
+  /**
+   * Snapshots the state rebuilt from history.
+   * Returns null when there is no history yet.
+   */
+  async snapshot(nowMs: number): Promise<SnapshotInfo | null> {
+    const rebuilt = await this.rebuildState();
+    return rebuilt ? this.writeSnapshot(rebuilt, nowMs) : null;
+  }
+
+  /**
+   * Replaces stored state with the state rebuilt from history.
+   * Returns null when there is no history yet.
+   */
+  async rebuild(): Promise<StoredState | null> {
+    const rebuilt = await this.rebuildState();
+    if (!rebuilt) {
+      return null;
+    }
+
+    await this.writeStoredState(assertValid(validateStoredState(rebuilt), 'rebuilt state'));
+    return rebuilt;
+  }
+
+  // ==========================================================================
+  // RPC: Engine Overrides
+  // ==========================================================================
+
+  /**
+   * Returns this player's engine config overrides, if any.
+   */
+  async getEngineOverrides(): Promise<EngineConfigOverrides | undefined> {
+    return this.ctx.storage.get<EngineConfigOverrides>('engineOverrides');
+  }
+
+  /**
+   * Replaces this player's engine config overrides (an empty object clears them).
+   * Overrides with unknown keys or invalid values are not stored; the result
+   * lists each invalid field.
+   */
+  async setEngineOverrides(engineOverrides: unknown): Promise<ValidationResult<EngineConfigOverrides>> {
+    const validation = validateEngineOverrides(engineOverrides);
+    if (!validation.ok) {
+      return validation;
+    }
+
+    if (Object.keys(validation.value).length === 0) {
+      await this.ctx.storage.delete('engineOverrides');
+    } else {
+      await this.ctx.storage.put('engineOverrides', validation.value);
+    }
+    return validation;
+  }
+
+  // ==========================================================================
+  // RPC: Time Zone
+  // ==========================================================================
+
+  /**
+   * Returns this player's saved IANA time zone, if any.
+   */
+  async getTimeZone(): Promise<string | undefined> {
+    return this.ctx.storage.get<string>('timeZone');
+  }
+
+  /**
+   * Saves this player's IANA time zone. An unknown zone is not saved.
+   */
+  async setTimeZone(timeZone: unknown): Promise<ValidationResult<string>> {
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return { ok: false, issues: [{ field: 'timeZone', message: 'must be an IANA time zone, e.g. America/Los_Angeles' }] };
+    }
+
+    await this.ctx.storage.put('timeZone', timeZone);
+    return { ok: true, value: timeZone };
+  }
+
+  // ==========================================================================
+  // RPC: Receipts and Quest Actions
+  // ==========================================================================
+
+  /**
+   * Returns one page of receipts matching the query, most recent first.
+   */
+  listReceipts(query: ReceiptQuery): ReceiptPage {
+    const conditions: string[] = [];
+    const bindings: Array<string | number> = [];
+    const where = (condition: string, ...values: Array<string | number>) => {
+      conditions.push(condition);
+      bindings.push(...values);
+    };
+
+    if (query.after) {
+      where('(created_at_ms < ? OR (created_at_ms = ? AND id < ?))', query.after.createdAtMs, query.after.createdAtMs, query.after.id);
+    }
+    if (query.questType !== undefined) {
+      where('quest_type = ?', query.questType);
+    }
+    if (query.questId !== undefined) {
+      where('quest_id = ?', query.questId);
+    }
+    if (query.minCreatedAtMs !== undefined) {
+      where('created_at_ms >= ?', query.minCreatedAtMs);
+    }
+    if (query.maxCreatedAtMs !== undefined) {
+      where('created_at_ms <= ?', query.maxCreatedAtMs);
+    }
+
+    // One extra row tells whether another page follows
+    const rows = this.ctx.storage.sql
+      .exec<ReceiptRow>(
+        `SELECT * FROM receipts ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY created_at_ms DESC, id DESC LIMIT ?`,
+        ...bindings,
+        query.limit + 1
+      )
+      .toArray();
+    const receipts = rows.slice(0, query.limit).map(receiptFromRow);
+    const last = receipts[receipts.length - 1];
+
+    // The next page keeps this page's range bounds, so the window does not move
+    const { minCreatedAtMs, maxCreatedAtMs } = query;
+    const bounds = minCreatedAtMs !== undefined || maxCreatedAtMs !== undefined ? { minCreatedAtMs, maxCreatedAtMs } : undefined;
+
+    return {
+      receipts,
+      nextCursor:
+        rows.length > query.limit ? encodeReceiptCursor({ createdAtMs: last.createdAtMs, id: last.id, bounds }) : null,
+    };
+  }
+
+  /**
+   * Returns one receipt, or null if this player has no receipt with that id.
+   */
+  getReceipt(receiptId: string): Receipt | null {
+    const row = this.ctx.storage.sql.exec<ReceiptRow>('SELECT * FROM receipts WHERE id = ?', receiptId).toArray()[0];
+    return row ? receiptFromRow(row) : null;
+  }
+
+  /**
+   * Returns the most recent recorded action of each given quest (quests
+   * without actions are left out). Each lookup uses the per-quest index,
+   * so only the quests on a receipt page are read.
+   */
+  latestQuestActions(questIds: string[]): QuestAction[] {
+    return [...new Set(questIds)].flatMap((questId) =>
+      this.ctx.storage.sql
+        .exec<QuestActionRow>(
+          'SELECT * FROM quest_actions WHERE quest_id = ? ORDER BY created_at_ms DESC, id DESC LIMIT 1',
+          questId
+        )
+        .toArray()
+        .map((row) => ({
+          id: row.id,
+          questId: row.quest_id,
+          action: row.action,
+          createdAtMs: row.created_at_ms,
+        }))
+    );
+  }
+
+  /**
+   * Records a quest action. Every action is kept, like receipts.
+   * An invalid action is not stored; the result lists each invalid field.
+   */
+  addQuestAction(action: unknown): ValidationResult<QuestAction> {
+    const validation = validateQuestAction(action);
+    if (validation.ok) {
+      this.insertQuestAction(validation.value);
+    }
+    return validation;
+  }
+
+  // ==========================================================================
+  // RPC: Idempotency
+  // ==========================================================================
+
+  /**
+   * Reserves an idempotency key for a request, unless the key already has one.
+   *
+   * The lookup and the reservation are one synchronous step inside the DO, so
+   * two concurrent requests with the same key cannot both be told to run.
+   * Expired entries are dropped first: responses older than the idempotency
+   * window, and reservations whose request never saved or released them.
+   */
+  reserveIdempotencyKey(key: string, fingerprint: string, nowMs: number): IdempotencyReservation {
+    const config = loadConfig(this.env);
+    this.ctx.storage.sql.exec(
+      'DELETE FROM idempotency WHERE created_at_ms <= ? OR (status = ? AND created_at_ms <= ?)',
+      nowMs - config.idempotencyWindowSeconds * 1000,
+      RESERVED_STATUS,
+      nowMs - IDEMPOTENCY_RESERVATION_MS
+    );
+
+    const row = this.ctx.storage.sql
+      .exec<IdempotencyRow>('SELECT fingerprint, status, content_type, body, created_at_ms FROM idempotency WHERE key = ?', key)
+      .toArray()[0];
+    if (!row) {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO idempotency (key, fingerprint, status, content_type, body, created_at_ms) VALUES (?, ?, ?, NULL, \'\', ?)',
+        key,
+        fingerprint,
+        RESERVED_STATUS,
+        nowMs
+      );
+      return { kind: 'reserved' };
+    }
+    if (row.fingerprint !== fingerprint) {
+      return { kind: 'conflict' };
+    }
+    if (row.status === RESERVED_STATUS) {
+      return { kind: 'in_progress' };
+    }
+
+    return {
+      kind: 'replay',
+      response: {
+        fingerprint: row.fingerprint,
+        status: row.status,
+        contentType: row.content_type,
+        body: row.body,
+        createdAtMs: row.created_at_ms,
+      },
+    };
+  }
+
+  /**
+   * Caches the response for a key reserved by reserveIdempotencyKey.
+   * Nothing is saved if the reservation expired and was taken over.
+   */
+  saveIdempotentResponse(key: string, response: CachedResponse): void {
+    this.ctx.storage.sql.exec(
+      'UPDATE idempotency SET status = ?, content_type = ?, body = ? WHERE key = ? AND fingerprint = ? AND status = ?',
+      response.status,
+      response.contentType,
+      response.body,
+      key,
+      response.fingerprint,
+      RESERVED_STATUS
+    );
+  }
+
+  /**
+   * Releases a reserved key without caching a response, so the request can be retried.
+   */
+  releaseIdempotencyKey(key: string): void {
+    this.ctx.storage.sql.exec('DELETE FROM idempotency WHERE key = ? AND status = ?', key, RESERVED_STATUS);
   }
 }
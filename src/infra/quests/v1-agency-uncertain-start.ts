@@ -23,8 +23,11 @@ import type { QuestNodeWithAvailability } from '../../domain/quests.js';
  * Constraint: stats.md - "Agency increases when you start something you were avoiding"
  * Constraint: stats.md - "Agency increases only when the player begins without full certainty"
  *
+ * Constraint: quests.md - "Every quest must change something: A future quest unlocks"
+ *
  * This quest is available when the player has some agency (agency >= 3) and is not blocked
  * by any flags. It's most relevant during 'recent' time when momentum is building.
+ * Completing it unlocks v1-courage-expose-imperfect-work (showing what was started).
  */
 export const v1AgencyUncertainStart: QuestNodeWithAvailability = {
   id: 'v1-agency-uncertain-start',
@@ -41,7 +44,14 @@ export const v1AgencyUncertainStart: QuestNodeWithAvailability = {
       agency: 1,
     },
     flagsToSet: ['began-without-clarity'],
-    unlocksQuests: [],
+    unlocksQuests: ['v1-courage-expose-imperfect-work'],
+  },
+  narrative: {
+    completed: {
+      title: 'Started without clarity',
+      line: 'You moved before you were sure. Clarity tends to follow action.',
+      shareText: 'Started something before I felt ready. Clarity came after.',
+    },
   },
   availability: {
     stats: {
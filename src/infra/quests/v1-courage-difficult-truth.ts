@@ -23,8 +23,11 @@ import type { QuestNodeWithAvailability } from '../../domain/quests.js';
  * Constraint: stats.md - "Courage increases when the player engages in avoided conversations"
  * Constraint: stats.md - "Courage is about emotional cost, not physical difficulty"
  *
+ * Constraint: quests.md - "Avoidance is acknowledged, not punished"
+ *
  * This quest is available when the player has some courage (courage >= 2) and is not blocked.
  * It's most relevant during 'recent' or 'gap' time when relationships need attention.
+ * Setting it aside marks the truth as held back (a different path, never a penalty).
  */
 export const v1CourageDifficultTruth: QuestNodeWithAvailability = {
   id: 'v1-courage-difficult-truth',
@@ -43,6 +46,20 @@ export const v1CourageDifficultTruth: QuestNodeWithAvailability = {
     flagsToSet: ['spoke-difficult-truth'],
     unlocksQuests: [],
   },
+  avoidance: {
+    flagsToSet: ['held-back-difficult-truth'],
+  },
+  narrative: {
+    completed: {
+      title: 'Truth spoken',
+      line: 'You said it calmly and let the silence be. That is what courage looks like.',
+      shareText: 'Said something I had been holding back. Calmly, in person.',
+    },
+    setAside: {
+      title: 'Held for now',
+      line: 'Some truths need more time. This one will still be here when you are ready.',
+    },
+  },
   availability: {
     stats: {
       minimum: {
@@ -0,0 +1,68 @@
+/**
+ * Courage quest: Showing unfinished work.
+ *
+ * This quest follows a first step taken without clarity. Having started something,
+ * the player is invited to let someone see it before it feels ready.
+ *
+ * All design decisions are constrained by:
+ * - docs/ethos.md
+ * - docs/identity_arc.md
+ * - docs/quests.md
+ * - docs/time.md
+ * - docs/stats.md
+ */
+
+import type { QuestNodeWithAvailability } from '../../domain/quests.js';
+
+/**
+ * v1-courage-expose-imperfect-work: Let it be seen unfinished
+ *
+ * Constraint: quests.md - "Courage: Facing emotional or social discomfort"
+ * Constraint: quests.md - "Examples: Expose imperfect work"
+ * Constraint: quests.md - "Emotional risk must be present"
+ * Constraint: quests.md - "Harder quests unlock through readiness, not grind"
+ * Constraint: stats.md - "Courage is about emotional cost, not physical difficulty"
+ *
+ * This quest requires an unlock: it only appears after v1-agency-uncertain-start is
+ * completed, because there must be something started before it can be shown.
+ */
+export const v1CourageExposeImperfectWork: QuestNodeWithAvailability = {
+  id: 'v1-courage-expose-imperfect-work',
+  type: 'courage',
+  context:
+    'You started something without waiting for clarity. It is still rough, and that is exactly why keeping it hidden feels safer. But work that stays hidden cannot be met by anyone else. Who could see this as it is right now?',
+  realWorldAction:
+    'Show the thing you started to one person before it feels ready. Share the draft, the sketch, the first attempt, or describe it out loud.',
+  constraint:
+    'Do not polish it first. Do not open with an apology or a list of what is missing. Share it, then listen.',
+  reflection: 'What did you expect them to say, and what did they say?',
+  consequence: {
+    statChanges: {
+      courage: 1,
+    },
+    flagsToSet: ['exposed-imperfect-work'],
+    unlocksQuests: [],
+  },
+  narrative: {
+    completed: {
+      title: 'Shared unfinished',
+      line: 'You let someone see it before it was perfect. What came back is information.',
+      shareText: 'Shared imperfect work before it felt ready.',
+    },
+  },
+  availability: {
+    stats: {
+      minimum: {
+        courage: 2,
+      },
+    },
+    flags: {
+      blocked: ['exposed-imperfect-work'],
+    },
+    requiresUnlock: true,
+    relevance: {
+      preferredRanges: ['recent'],
+      preferredMomentum: ['present'],
+    },
+  },
+};
@@ -45,6 +45,13 @@ export const v1OrderRemoveFriction: QuestNodeWithAvailability = {
     flagsToSet: ['removed-friction'],
     unlocksQuests: [],
   },
+  narrative: {
+    completed: {
+      title: 'Friction removed',
+      line: 'One obstacle is gone. The next action just got a little easier.',
+      shareText: 'Removed one small source of friction. Less in the way now.',
+    },
+  },
   availability: {
     stats: {
       minimum: {
@@ -54,6 +61,7 @@ export const v1OrderRemoveFriction: QuestNodeWithAvailability = {
     flags: {},
     relevance: {
       preferredRanges: ['recent', 'gap'],
+      preferredMomentum: ['fading'],
     },
   },
 };
@@ -43,6 +43,17 @@ export const v1ReentryAgency1: QuestNodeWithAvailability = {
     flagsToSet: ['returned-to-action'],
     unlocksQuests: [],
   },
+  narrative: {
+    started: {
+      title: 'One message',
+      line: 'Pick one person. A short message is enough to begin again.',
+    },
+    completed: {
+      title: 'Message sent',
+      line: 'You reached out. The first step back is often the smallest one.',
+      shareText: 'Sent one message I had been putting off. Back in motion.',
+    },
+  },
   availability: {
     stats: {},
     flags: {
@@ -7,6 +7,7 @@
 
 import { DurableObject } from 'cloudflare:workers';
 import type { ShareLinkData } from '../http/share-link';
+import { validateShareLinkData, validationErrorResponse } from '../http/validation';
 
 /**
  * ShareLinkDO: Durable Object that stores a single share link.
@@ -41,11 +42,14 @@ export class ShareLinkDO extends DurableObject<Env> {
       return Response.json({ data });
     }
 
-    // PUT / - store share link data
+    // PUT / - store share link data (validated before it is stored)
     if (url.pathname === '/' && request.method === 'PUT') {
       try {
-        const body = await request.json() as ShareLinkData;
-        await this.ctx.storage.put('data', body);
+        const validation = validateShareLinkData(await request.json());
+        if (!validation.ok) {
+          return validationErrorResponse(validation.issues);
+        }
+        await this.ctx.storage.put('data', validation.value);
         return Response.json({ success: true });
       } catch (error) {
         console.error('Error saving share link:', error);
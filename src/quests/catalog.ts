@@ -7,10 +7,12 @@
 
 import type { QuestCatalog } from '../domain/engine.js';
 import type { QuestId, QuestNodeWithAvailability } from '../domain/quests.js';
+import { buildFragmentRegistry, type NarrativeFragmentRegistry } from '../domain/fragments.js';
 import { v1ReentryAgency1 } from '../infra/quests/v1-reentry-agency-1.js';
 import { v1AgencyUncertainStart } from '../infra/quests/v1-agency-uncertain-start.js';
 import { v1CourageDifficultTruth } from '../infra/quests/v1-courage-difficult-truth.js';
 import { v1OrderRemoveFriction } from '../infra/quests/v1-order-remove-friction.js';
+import { v1CourageExposeImperfectWork } from '../infra/quests/v1-courage-expose-imperfect-work.js';
 
 /**
  * In-memory quest catalog containing all available quests.
@@ -20,6 +22,7 @@ const quests = new Map<QuestId, QuestNodeWithAvailability>([
   [v1AgencyUncertainStart.id, v1AgencyUncertainStart],
   [v1CourageDifficultTruth.id, v1CourageDifficultTruth],
   [v1OrderRemoveFriction.id, v1OrderRemoveFriction],
+  [v1CourageExposeImperfectWork.id, v1CourageExposeImperfectWork],
 ]);
 
 /**
@@ -38,3 +41,8 @@ export const catalog: QuestCatalog = {
   },
 };
 
+
+/**
+ * Narrative fragments declared by the catalog's quests, keyed by messageKey.
+ */
+export const narrativeFragments: NarrativeFragmentRegistry = buildFragmentRegistry(Array.from(quests.values()));
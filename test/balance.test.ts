@@ -0,0 +1,109 @@
+/**
+ * Catalog balance tests.
+ *
+ * Verifies that balance runs are deterministic, detect dominant and
+ * unreachable quests, and that the shipped catalog keeps
+ * "the easiest quest should never dominate" for every profile.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BALANCE_PROFILES,
+  DEFAULT_BALANCE_OPTIONS,
+  runBalanceProfile,
+  runBalanceReport,
+  type BalanceOptions,
+  type BehaviorProfile,
+} from '../src/domain/balance';
+import type { QuestCatalog } from '../src/domain/engine';
+import type { QuestId, QuestNodeWithAvailability, QuestType, QuestAvailability } from '../src/domain/quests';
+import { catalog } from '../src/quests/catalog';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const smallRun: BalanceOptions = { ...DEFAULT_BALANCE_OPTIONS, players: 100, days: 30 };
+
+const alwaysCompletes = BALANCE_PROFILES.find((profile) => profile.id === 'always_completes') as BehaviorProfile;
+
+function makeQuest(
+  id: QuestId,
+  type: QuestType,
+  availability: QuestAvailability,
+  extra?: Partial<QuestNodeWithAvailability>
+): QuestNodeWithAvailability {
+  return {
+    id,
+    type,
+    context: `Context for ${id}`,
+    realWorldAction: `Action for ${id}`,
+    constraint: `Constraint for ${id}`,
+    consequence: {},
+    availability,
+    ...extra,
+  };
+}
+
+function makeCatalog(quests: QuestNodeWithAvailability[]): QuestCatalog {
+  return {
+    getQuestById: (id) => quests.find((quest) => quest.id === id),
+    listAll: () => quests,
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('runBalanceProfile', () => {
+  it('is deterministic for a seed', () => {
+    const first = runBalanceProfile(catalog, alwaysCompletes, smallRun);
+    const second = runBalanceProfile(catalog, alwaysCompletes, smallRun);
+
+    expect(first).toEqual(second);
+  });
+
+  it('samples stats at the start, every interval, and the end', () => {
+    const report = runBalanceProfile(catalog, alwaysCompletes, smallRun);
+
+    expect(report.statsOverTime.map((sample) => sample.day)).toEqual([0, 7, 14, 21, 28, 30]);
+    expect(report.statsOverTime[0].stats.agency).toEqual({ min: 5, median: 5, mean: 5, max: 5 });
+  });
+
+  it('flags a repeatable quest that crowds out the rest', () => {
+    const quests = makeCatalog([
+      makeQuest('easy-repeat', 'order', {}, { repeatable: { cooldownMs: 0 } }),
+      makeQuest('one-off', 'agency', {}),
+    ]);
+
+    const report = runBalanceProfile(quests, alwaysCompletes, { ...smallRun, choicesPerVisit: 1 });
+
+    expect(report.dominant).toEqual(['easy-repeat']);
+    expect(report.quests.find((quest) => quest.questId === 'one-off')?.started).toBe(0);
+  });
+
+  it('reports quests never offered and flags never set', () => {
+    const quests = makeCatalog([
+      makeQuest('open', 'agency', {}, { consequence: { flagsToSet: ['opened'] } }),
+      makeQuest('gated', 'courage', { flags: { required: ['never-set'] } }, { consequence: { flagsToSet: ['unreachable'] } }),
+    ]);
+
+    const report = runBalanceProfile(quests, alwaysCompletes, smallRun);
+
+    expect(report.neverOffered).toEqual(['gated']);
+    expect(report.flagsNeverSet).toEqual(['unreachable']);
+  });
+});
+
+describe('Shipped catalog balance', () => {
+  it('has no dominant or unreachable quest in any profile', () => {
+    // Constraint: quests.md - "The 'easiest' quest should never dominate"
+    const reports = runBalanceReport(catalog, BALANCE_PROFILES, { ...smallRun, days: 60 });
+
+    for (const report of reports) {
+      expect(report.dominant, report.profileId).toEqual([]);
+      expect(report.neverOffered, report.profileId).toEqual([]);
+    }
+  });
+});
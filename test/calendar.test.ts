@@ -0,0 +1,71 @@
+/**
+ * Calendar and time zone tests.
+ *
+ * Verifies local calendar dates across daylight saving changes and how the
+ * time zone for a request is chosen.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TIME_ZONE, isSameLocalDay, isValidTimeZone, localDate } from '../src/domain/calendar';
+import { resolveTimeZone } from '../src/http/time-zone';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA time zones', () => {
+    expect(isValidTimeZone('America/Los_Angeles')).toBe(true);
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+  });
+
+  it('rejects unknown or empty zones', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('localDate', () => {
+  it('returns the date at local midnight boundaries', () => {
+    // 06:59 and 07:00 UTC on March 10 are 23:59 on the 9th and 00:00 on the 10th (PDT)
+    expect(localDate(Date.UTC(2025, 2, 10, 6, 59), 'America/Los_Angeles')).toBe('2025-03-09');
+    expect(localDate(Date.UTC(2025, 2, 10, 7, 0), 'America/Los_Angeles')).toBe('2025-03-10');
+  });
+
+  it('moves the local midnight by an hour across a DST change', () => {
+    // Before spring forward, local midnight is 08:00 UTC; after, 07:00 UTC
+    expect(localDate(Date.UTC(2025, 2, 9, 7, 59), 'America/Los_Angeles')).toBe('2025-03-08');
+    expect(localDate(Date.UTC(2025, 2, 9, 8, 0), 'America/Los_Angeles')).toBe('2025-03-09');
+    expect(localDate(Date.UTC(2025, 2, 10, 7, 0), 'America/Los_Angeles')).toBe('2025-03-10');
+  });
+
+  it('falls back to UTC for an unknown zone', () => {
+    expect(localDate(Date.UTC(2025, 0, 1, 23, 0), 'Nowhere/Else')).toBe('2025-01-01');
+    expect(localDate(Date.UTC(2025, 0, 1, 23, 0))).toBe('2025-01-01');
+  });
+});
+
+describe('isSameLocalDay', () => {
+  it('compares dates in the given zone', () => {
+    const evening = Date.UTC(2025, 5, 11, 2, 0); // 19:00 June 10 in Los Angeles
+    const morning = Date.UTC(2025, 5, 10, 16, 0); // 09:00 June 10 in Los Angeles
+
+    expect(isSameLocalDay(morning, evening, 'America/Los_Angeles')).toBe(true);
+    expect(isSameLocalDay(morning, evening)).toBe(false);
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it("prefers the player's saved zone", () => {
+    expect(resolveTimeZone('Europe/London', 'America/Los_Angeles')).toEqual({
+      timeZone: 'Europe/London',
+      source: 'player',
+    });
+  });
+
+  it('falls back to a valid header, then UTC', () => {
+    expect(resolveTimeZone(undefined, ' America/Los_Angeles ')).toEqual({
+      timeZone: 'America/Los_Angeles',
+      source: 'header',
+    });
+    expect(resolveTimeZone(undefined, 'Not/A_Zone')).toEqual({ timeZone: DEFAULT_TIME_ZONE, source: 'default' });
+    expect(resolveTimeZone(undefined, null)).toEqual({ timeZone: DEFAULT_TIME_ZONE, source: 'default' });
+  });
+});
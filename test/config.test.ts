@@ -0,0 +1,111 @@
+/**
+ * Configuration tests.
+ *
+ * Verifies that defaults match the original hard-coded values, env vars
+ * override them, and invalid values are rejected with every problem listed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_APP_CONFIG, loadConfig } from '../src/config';
+import { DEFAULT_ENGINE_CONFIG, validateEngineConfig } from '../src/domain/config';
+
+describe('Default configuration', () => {
+  it('keeps the original engine values', () => {
+    expect(DEFAULT_ENGINE_CONFIG).toEqual({
+      timeThresholdsMs: {
+        recentMs: 2 * 24 * 60 * 60 * 1000,
+        longGapMs: 7 * 24 * 60 * 60 * 1000,
+      },
+      maxQuestChoices: 3,
+      initialStats: { agency: 5, courage: 3, order: 4 },
+      pacing: { kind: 'daily_rest' },
+    });
+    expect(validateEngineConfig(DEFAULT_ENGINE_CONFIG)).toEqual([]);
+  });
+
+  it('keeps the original worker values', () => {
+    expect(DEFAULT_APP_CONFIG).toEqual({
+      engine: DEFAULT_ENGINE_CONFIG,
+      questCardsPerResponse: 1,
+      receiptPageSize: 50,
+      cookieMaxAgeSeconds: 60 * 60 * 24 * 365,
+      idempotencyWindowSeconds: 60 * 60 * 24,
+    });
+  });
+
+  it('loads defaults from an empty env', () => {
+    expect(loadConfig({})).toEqual(DEFAULT_APP_CONFIG);
+  });
+});
+
+describe('loadConfig', () => {
+  it('reads values from env vars', () => {
+    const config = loadConfig({
+      TIME_RECENT_MS: '1000',
+      TIME_LONG_GAP_MS: '5000',
+      MAX_QUEST_CHOICES: '2',
+      QUEST_CARDS_PER_RESPONSE: '2',
+      INITIAL_STATS: '{"courage":1}',
+      PACING_POLICY: 'rolling_rest',
+      REST_WINDOW_MS: '3600000',
+      RECEIPT_PAGE_SIZE: '10',
+      COOKIE_MAX_AGE_SECONDS: '3600',
+      IDEMPOTENCY_WINDOW_SECONDS: '600',
+    });
+
+    expect(config).toEqual({
+      engine: {
+        timeThresholdsMs: { recentMs: 1000, longGapMs: 5000 },
+        maxQuestChoices: 2,
+        initialStats: { agency: 5, courage: 1, order: 4 },
+        pacing: { kind: 'rolling_rest', windowMs: 3600000 },
+      },
+      questCardsPerResponse: 2,
+      receiptPageSize: 10,
+      cookieMaxAgeSeconds: 3600,
+      idempotencyWindowSeconds: 600,
+    });
+  });
+
+  it('treats empty strings as unset', () => {
+    expect(loadConfig({ RECEIPT_PAGE_SIZE: '', INITIAL_STATS: '' })).toEqual(DEFAULT_APP_CONFIG);
+  });
+
+  it('rejects out-of-order time thresholds', () => {
+    expect(() => loadConfig({ TIME_RECENT_MS: '5000', TIME_LONG_GAP_MS: '1000' })).toThrow(
+      'timeThresholdsMs.longGapMs must be greater than recentMs'
+    );
+  });
+
+  it('rejects non-numeric and non-positive counts', () => {
+    expect(() => loadConfig({ RECEIPT_PAGE_SIZE: 'lots' })).toThrow('RECEIPT_PAGE_SIZE must be a number');
+    expect(() => loadConfig({ RECEIPT_PAGE_SIZE: '0' })).toThrow('receiptPageSize must be a positive integer');
+    expect(() => loadConfig({ MAX_QUEST_CHOICES: '1.5' })).toThrow('maxQuestChoices must be a positive integer');
+  });
+
+  it('rejects malformed initial stats', () => {
+    expect(() => loadConfig({ INITIAL_STATS: 'agency=5' })).toThrow('INITIAL_STATS must be valid JSON');
+    expect(() => loadConfig({ INITIAL_STATS: '{"luck":3}' })).toThrow('INITIAL_STATS has unknown stats: luck');
+    expect(() => loadConfig({ INITIAL_STATS: '{"order":-1}' })).toThrow('initialStats.order must be a non-negative integer');
+  });
+
+  it('reads the pacing policy', () => {
+    expect(loadConfig({ PACING_POLICY: 'none' }).engine.pacing).toEqual({ kind: 'none' });
+    expect(loadConfig({ PACING_POLICY: 'rolling_rest' }).engine.pacing).toEqual({
+      kind: 'rolling_rest',
+      windowMs: 24 * 60 * 60 * 1000,
+    });
+    expect(() => loadConfig({ PACING_POLICY: 'weekly' })).toThrow(
+      'PACING_POLICY must be one of: daily_rest, rolling_rest, none'
+    );
+    expect(() => loadConfig({ PACING_POLICY: 'rolling_rest', REST_WINDOW_MS: '-1' })).toThrow(
+      'pacing.windowMs must be a positive number'
+    );
+  });
+
+  it('lists every problem at once', () => {
+    expect(() => loadConfig({ RECEIPT_PAGE_SIZE: '0', COOKIE_MAX_AGE_SECONDS: '0' })).toThrow(
+      'Invalid configuration: receiptPageSize must be a positive integer; cookieMaxAgeSeconds must be a positive integer'
+    );
+  });
+});
@@ -12,10 +12,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { tick, startQuest, completeQuest } from '../src/domain/engine';
+import { tick, startQuest, completeQuest, setAsideQuest } from '../src/domain/engine';
 import type { QuestCatalog } from '../src/domain/engine';
 import type {
+  ActiveQuest,
   CharacterState,
+  CompletionHistory,
   Stats,
   TimeContext,
   Flags,
@@ -26,6 +28,8 @@ import type {
   QuestType,
 } from '../src/domain/quests';
 import type { EngineEvent } from '../src/domain/events';
+import { DEFAULT_ENGINE_CONFIG, withEngineOverrides } from '../src/domain/config';
+import type { EngineConfig } from '../src/domain/config';
 
 // ============================================================================
 // Test Helpers
@@ -38,6 +42,8 @@ function makeState(overrides?: {
   stats?: Partial<Stats>;
   flags?: string[];
   timeContext?: Partial<TimeContext>;
+  activeQuest?: ActiveQuest;
+  completions?: CompletionHistory;
 }): CharacterState {
   const baseStats: Stats = {
     agency: 5,
@@ -55,6 +61,19 @@ function makeState(overrides?: {
     stats: { ...baseStats, ...overrides?.stats },
     flags: new Set(overrides?.flags ?? []),
     timeContext: { ...baseTimeContext, ...overrides?.timeContext ?? {} },
+    activeQuest: overrides?.activeQuest,
+    completions: overrides?.completions,
+  };
+}
+
+/**
+ * Creates an in-progress active quest record for testing.
+ */
+function makeActiveQuest(questId: QuestId, startedAtMs = 1000000): ActiveQuest {
+  return {
+    questId,
+    startedAtMs,
+    status: 'in_progress',
   };
 }
 
@@ -115,6 +134,24 @@ describe('tick()', () => {
     expect(result.state.stats.order).toBe(7);
   });
 
+  it('refreshes the coarse range of completion records without events', () => {
+    const completions: CompletionHistory = {
+      'quest-1': { questId: 'quest-1', count: 2, lastCompletedAtMs: 995000, lastCompletedRange: 'recent' },
+    };
+    const state = makeState({ completions });
+    const nowMs = 995000 + 3 * 24 * 60 * 60 * 1000; // ~3 days after completion
+
+    const result = tick(state, nowMs);
+
+    expect(result.state.completions?.['quest-1']).toEqual({
+      questId: 'quest-1',
+      count: 2,
+      lastCompletedAtMs: 995000,
+      lastCompletedRange: 'gap',
+    });
+    expect(result.events).toEqual(tick(makeState(), nowMs).events); // Same events as without completions
+  });
+
   it('can emit time_context_changed when range changes', () => {
     // Constraint: time.md - "Time is neutral; stagnation over decay"
     const state = makeState({
@@ -166,6 +203,110 @@ describe('tick()', () => {
       expect(result.state.stats).toEqual(state.stats);
     }
   });
+
+  it('derives momentum from the last quest start and emits momentum_changed', () => {
+    // Constraint: time.md - "Momentum emerges from recent initiation, not streaks"
+    const state = makeState({
+      timeContext: {
+        range: 'recent',
+        nowMs: 1000000,
+        lastMeaningfulActionMs: 995000,
+        lastInitiatedMs: 995000,
+        momentum: 'present',
+      },
+    });
+    const nowMs = 1000000 + 3 * 24 * 60 * 60 * 1000; // ~3 days later
+
+    const result = tick(state, nowMs);
+
+    expect(result.state.timeContext.momentum).toBe('fading');
+    expect(result.events).toContainEqual({
+      type: 'momentum_changed',
+      previousMomentum: 'present',
+      newMomentum: 'fading',
+    });
+  });
+
+  it('does not emit momentum_changed when the label holds', () => {
+    const state = makeState({
+      timeContext: { lastInitiatedMs: 995000, momentum: 'present' },
+    });
+
+    const result = tick(state, 1005000);
+
+    expect(result.state.timeContext.momentum).toBe('present');
+    expect(result.events.some((e) => e.type === 'momentum_changed')).toBe(false);
+  });
+
+  it('derives momentum for states stored without it, without emitting a change', () => {
+    const state = makeState(); // No momentum or lastInitiatedMs
+
+    const result = tick(state, 1005000);
+
+    expect(result.state.timeContext.momentum).toBe('present'); // From last meaningful action
+    expect(result.events.some((e) => e.type === 'momentum_changed')).toBe(false);
+  });
+});
+
+describe('tick() with EngineConfig', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const config: EngineConfig = {
+    ...DEFAULT_ENGINE_CONFIG,
+    timeThresholdsMs: { recentMs: 10 * HOUR_MS, longGapMs: 20 * HOUR_MS },
+  };
+
+  it('uses configured thresholds at the range boundaries', () => {
+    const state = makeState({
+      timeContext: { nowMs: 0, lastMeaningfulActionMs: 0, lastInitiatedMs: 0 },
+    });
+
+    expect(tick(state, 10 * HOUR_MS - 1, config).state.timeContext.range).toBe('recent');
+    expect(tick(state, 10 * HOUR_MS, config).state.timeContext.range).toBe('gap');
+    expect(tick(state, 20 * HOUR_MS - 1, config).state.timeContext.range).toBe('gap');
+    expect(tick(state, 20 * HOUR_MS, config).state.timeContext.range).toBe('long_gap');
+  });
+
+  it('derives momentum on the same configured boundaries', () => {
+    const state = makeState({
+      timeContext: { nowMs: 0, lastMeaningfulActionMs: 0, lastInitiatedMs: 0, momentum: 'present' },
+    });
+
+    const result = tick(state, 10 * HOUR_MS, config);
+
+    expect(result.state.timeContext.momentum).toBe('fading');
+  });
+
+  it('defaults to DEFAULT_ENGINE_CONFIG', () => {
+    const state = makeState();
+    const nowMs = 1000000 + 3 * 24 * 60 * 60 * 1000;
+
+    expect(tick(state, nowMs)).toEqual(tick(state, nowMs, DEFAULT_ENGINE_CONFIG));
+  });
+});
+
+describe('withEngineOverrides()', () => {
+  it('layers partial overrides over the base config', () => {
+    const result = withEngineOverrides(DEFAULT_ENGINE_CONFIG, {
+      timeThresholdsMs: { longGapMs: 14 * 24 * 60 * 60 * 1000 },
+    });
+
+    expect(result.timeThresholdsMs).toEqual({
+      recentMs: DEFAULT_ENGINE_CONFIG.timeThresholdsMs.recentMs,
+      longGapMs: 14 * 24 * 60 * 60 * 1000,
+    });
+  });
+
+  it('keeps the base config when overrides would break range ordering', () => {
+    const result = withEngineOverrides(DEFAULT_ENGINE_CONFIG, {
+      timeThresholdsMs: { recentMs: 30 * 24 * 60 * 60 * 1000 },
+    });
+
+    expect(result).toBe(DEFAULT_ENGINE_CONFIG);
+  });
+
+  it('keeps the base config without overrides', () => {
+    expect(withEngineOverrides(DEFAULT_ENGINE_CONFIG, undefined)).toBe(DEFAULT_ENGINE_CONFIG);
+  });
 });
 
 describe('startQuest()', () => {
@@ -189,6 +330,26 @@ describe('startQuest()', () => {
     expect(result.state.timeContext.nowMs).toBe(nowMs);
   });
 
+  it('restores momentum when a quest is started', () => {
+    // Constraint: time.md - "Recent Agency actions lower future resistance"
+    const state = makeState({
+      timeContext: { range: 'long_gap', lastMeaningfulActionMs: undefined, momentum: 'absent' },
+    });
+    const quest = makeQuest('quest-1', 'agency');
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = startQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.timeContext.momentum).toBe('present');
+    expect(result.state.timeContext.lastInitiatedMs).toBe(nowMs);
+    expect(result.events).toContainEqual({
+      type: 'momentum_changed',
+      previousMomentum: 'absent',
+      newMomentum: 'present',
+    });
+  });
+
   it('emits quest_started', () => {
     const state = makeState();
     const quest = makeQuest('quest-1', 'courage');
@@ -216,12 +377,45 @@ describe('startQuest()', () => {
     expect(result.state).toEqual(state);
     expect(result.events).toEqual([]);
   });
+
+  it('records the quest as active', () => {
+    const state = makeState();
+    const quest = makeQuest('quest-1', 'agency');
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = startQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.activeQuest).toEqual({
+      questId: 'quest-1',
+      startedAtMs: nowMs,
+      status: 'in_progress',
+    });
+  });
+
+  it('returns unchanged state and no events while another quest is active', () => {
+    // Constraint: quests.md - "One meaningful quest can define a day"
+    const state = makeState({ activeQuest: makeActiveQuest('quest-1') });
+    const catalog = new TestQuestCatalog([
+      makeQuest('quest-1', 'agency'),
+      makeQuest('quest-2', 'order'),
+    ]);
+    const nowMs = 1005000;
+
+    const result = startQuest(state, 'quest-2', catalog, nowMs);
+
+    expect(result.state).toEqual(state);
+    expect(result.events).toEqual([]);
+  });
 });
 
 describe('completeQuest()', () => {
   it('applies stat_changed deltas (bounded at 0)', () => {
     // Constraint: stats.md - "Stats are qualitative at heart, even if stored numerically"
-    const state = makeState({ stats: { agency: 5, courage: 2, order: 3 } });
+    const state = makeState({
+      stats: { agency: 5, courage: 2, order: 3 },
+      activeQuest: makeActiveQuest('quest-1'),
+    });
     const quest = makeQuest('quest-1', 'agency', {
       statChanges: {
         agency: 2, // Increase agency by 2
@@ -243,7 +437,10 @@ describe('completeQuest()', () => {
 
   it('sets/clears flags', () => {
     // Constraint: quests.md - "Every quest must change something: A flag is set"
-    const state = makeState({ flags: ['flag-a', 'flag-b'] });
+    const state = makeState({
+      flags: ['flag-a', 'flag-b'],
+      activeQuest: makeActiveQuest('quest-1'),
+    });
     const quest = makeQuest('quest-1', 'order', {
       flagsToSet: ['flag-c', 'flag-d'],
       flagsToClear: ['flag-a'],
@@ -268,7 +465,7 @@ describe('completeQuest()', () => {
   });
 
   it('emits quest_completed', () => {
-    const state = makeState();
+    const state = makeState({ activeQuest: makeActiveQuest('quest-1') });
     const quest = makeQuest('quest-1', 'agency');
     const catalog = new TestQuestCatalog([quest]);
     const nowMs = 1005000;
@@ -296,6 +493,148 @@ describe('completeQuest()', () => {
     expect(result.state).toEqual(state);
     expect(result.events).toEqual([]);
   });
+
+  it('clears the active quest', () => {
+    const state = makeState({ activeQuest: makeActiveQuest('quest-1') });
+    const quest = makeQuest('quest-1', 'agency', { statChanges: { agency: 1 } });
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = completeQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.activeQuest).toBeUndefined();
+  });
+
+  it('returns unchanged state and no events when quest was never started', () => {
+    // Constraint: identity_arc.md - "No mechanic may bypass real-world initiation"
+    const state = makeState({ stats: { agency: 5, courage: 3, order: 4 } });
+    const quest = makeQuest('quest-1', 'agency', { statChanges: { agency: 1 } });
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = completeQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state).toEqual(state);
+    expect(result.events).toEqual([]);
+  });
+
+  it('returns unchanged state and no events when a different quest is active', () => {
+    const state = makeState({ activeQuest: makeActiveQuest('quest-2') });
+    const quest = makeQuest('quest-1', 'agency', { statChanges: { agency: 1 } });
+    const catalog = new TestQuestCatalog([quest, makeQuest('quest-2', 'order')]);
+    const nowMs = 1005000;
+
+    const result = completeQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state).toEqual(state);
+    expect(result.events).toEqual([]);
+  });
+
+  it('adds unlocked quests to state', () => {
+    // Constraint: quests.md - "Every quest must change something: A future quest unlocks"
+    const state = makeState({ activeQuest: makeActiveQuest('quest-1') });
+    const quest = makeQuest('quest-1', 'agency', { unlocksQuests: ['quest-2'] });
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = completeQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.unlockedQuests?.has('quest-2')).toBe(true);
+    const questsUnlocked = result.events.find((e) => e.type === 'quests_unlocked');
+    expect(questsUnlocked).toBeDefined();
+  });
+
+  it('completes a quest started through startQuest', () => {
+    const state = makeState();
+    const quest = makeQuest('quest-1', 'courage', { statChanges: { courage: 1 } });
+    const catalog = new TestQuestCatalog([quest]);
+
+    const started = startQuest(state, 'quest-1', catalog, 1005000);
+    const result = completeQuest(started.state, 'quest-1', catalog, 1010000);
+
+    expect(result.state.stats.courage).toBe(4);
+    expect(result.events.some((e) => e.type === 'quest_completed')).toBe(true);
+  });
+});
+
+describe('setAsideQuest()', () => {
+  it('clears the active quest and emits quest_set_aside', () => {
+    // Constraint: quests.md - "Avoidance is treated as data"
+    const state = makeState({ activeQuest: makeActiveQuest('quest-1') });
+    const quest = makeQuest('quest-1', 'courage');
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = setAsideQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.activeQuest).toBeUndefined();
+    const questSetAside = result.events.find((e) => e.type === 'quest_set_aside');
+    expect(questSetAside).toBeDefined();
+    if (questSetAside && questSetAside.type === 'quest_set_aside') {
+      expect(questSetAside.questId).toBe('quest-1');
+      expect(questSetAside.questType).toBe('courage');
+    }
+  });
+
+  it('applies avoidance flags and unlocks', () => {
+    // Constraint: quests.md - "Avoidance unlocks different paths"
+    const state = makeState({
+      flags: ['flag-a'],
+      activeQuest: makeActiveQuest('quest-1'),
+    });
+    const quest: QuestNodeWithAvailability = {
+      ...makeQuest('quest-1', 'courage'),
+      avoidance: {
+        flagsToSet: ['held-back'],
+        flagsToClear: ['flag-a'],
+        unlocksQuests: ['quest-2'],
+      },
+    };
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = setAsideQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.flags.has('held-back')).toBe(true);
+    expect(result.state.flags.has('flag-a')).toBe(false);
+    expect(result.state.unlockedQuests?.has('quest-2')).toBe(true);
+    expect(result.events.map((e) => e.type)).toEqual([
+      'flag_changed',
+      'quests_unlocked',
+      'quest_set_aside',
+    ]);
+  });
+
+  it('never changes stats or the last meaningful action', () => {
+    // Constraint: identity_arc.md - "Avoidance does not reduce stats"
+    const state = makeState({
+      stats: { agency: 5, courage: 3, order: 4 },
+      timeContext: { range: 'gap', nowMs: 1000000, lastMeaningfulActionMs: 500000 },
+      activeQuest: makeActiveQuest('quest-1'),
+    });
+    const quest = makeQuest('quest-1', 'courage', { statChanges: { courage: 1 } });
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = setAsideQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state.stats).toEqual(state.stats);
+    expect(result.state.timeContext.range).toBe('gap');
+    expect(result.state.timeContext.lastMeaningfulActionMs).toBe(500000);
+    expect(result.events.some((e) => e.type === 'stat_changed')).toBe(false);
+  });
+
+  it('returns unchanged state and no events when quest is not underway', () => {
+    const state = makeState();
+    const quest = makeQuest('quest-1', 'courage');
+    const catalog = new TestQuestCatalog([quest]);
+    const nowMs = 1005000;
+
+    const result = setAsideQuest(state, 'quest-1', catalog, nowMs);
+
+    expect(result.state).toEqual(state);
+    expect(result.events).toEqual([]);
+  });
 });
 
 describe('No grind / no punishment invariants', () => {
@@ -0,0 +1,160 @@
+/**
+ * Event history tests.
+ *
+ * Verifies that folding logged events through the transitions rebuilds the
+ * same state as the live engine, including through PlayerStateDO when the
+ * player's engine overrides change mid-history.
+ */
+
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { tick, startQuest, completeQuest, setAsideQuest } from '../src/domain/engine';
+import { foldEvents, type EventRecord } from '../src/domain/history';
+import type { EngineEvent } from '../src/domain/events';
+import type { CharacterState } from '../src/domain/state';
+import { DEFAULT_ENGINE_CONFIG } from '../src/domain/config';
+import { catalog } from '../src/quests/catalog';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function makeState(): CharacterState {
+  return {
+    stats: { agency: 5, courage: 3, order: 4 },
+    flags: new Set(),
+    timeContext: { range: 'long_gap', nowMs: 1000000 },
+  };
+}
+
+/**
+ * Turns transition results into log records, numbered in order.
+ */
+function toRecords(steps: Array<{ atMs: number; questId: string; events: EngineEvent[] }>): EventRecord[] {
+  let seq = 0;
+  return steps.flatMap(({ atMs, questId, events }) =>
+    events.map((event) => ({ seq: ++seq, atMs, questId, event }))
+  );
+}
+
+describe('foldEvents', () => {
+  it('rebuilds the same state as live transitions on ticked state', () => {
+    // Live commits tick to the action's time first; gaps move range and momentum
+    const base = makeState();
+    const steps = [
+      { atMs: 2000000, questId: 'v1-agency-uncertain-start', run: startQuest },
+      { atMs: 2000000 + HOUR_MS, questId: 'v1-agency-uncertain-start', run: completeQuest },
+      { atMs: 2000000 + 4 * DAY_MS, questId: 'v1-courage-difficult-truth', run: startQuest },
+      { atMs: 2000000 + 12 * DAY_MS, questId: 'v1-courage-difficult-truth', run: setAsideQuest },
+    ];
+
+    let live = base;
+    const results = steps.map(({ atMs, questId, run }) => {
+      const result = run(tick(live, atMs).state, questId, catalog, atMs);
+      live = result.state;
+      return { atMs, questId, events: result.events };
+    });
+
+    expect(foldEvents(base, toRecords(results), catalog)).toEqual(live);
+  });
+
+  it('rebuilds the same state as the live transitions', () => {
+    const base = makeState();
+    const started = startQuest(base, 'v1-agency-uncertain-start', catalog, 2000000);
+    const completed = completeQuest(started.state, 'v1-agency-uncertain-start', catalog, 3000000);
+    const restarted = startQuest(completed.state, 'v1-courage-difficult-truth', catalog, 4000000);
+    const setAside = setAsideQuest(restarted.state, 'v1-courage-difficult-truth', catalog, 5000000);
+
+    const records = toRecords([
+      { atMs: 2000000, questId: 'v1-agency-uncertain-start', events: started.events },
+      { atMs: 3000000, questId: 'v1-agency-uncertain-start', events: completed.events },
+      { atMs: 4000000, questId: 'v1-courage-difficult-truth', events: restarted.events },
+      { atMs: 5000000, questId: 'v1-courage-difficult-truth', events: setAside.events },
+    ]);
+
+    expect(foldEvents(base, records, catalog)).toEqual(setAside.state);
+  });
+
+  it('ticks with the thresholds recorded on each event', () => {
+    const base = makeState();
+    const thresholds = { recentMs: HOUR_MS, longGapMs: DAY_MS };
+    const config = { ...DEFAULT_ENGINE_CONFIG, timeThresholdsMs: thresholds };
+    const started = startQuest(tick(base, 2000000, config).state, 'v1-agency-uncertain-start', catalog, 2000000);
+    const completedAtMs = 2000000 + 2 * HOUR_MS;
+    const completed = completeQuest(tick(started.state, completedAtMs, config).state, 'v1-agency-uncertain-start', catalog, completedAtMs);
+
+    const records = toRecords([
+      { atMs: 2000000, questId: 'v1-agency-uncertain-start', events: started.events },
+      { atMs: completedAtMs, questId: 'v1-agency-uncertain-start', events: completed.events },
+    ]).map((record) => ({ ...record, timeThresholdsMs: thresholds }));
+
+    expect(foldEvents(base, records, catalog)).toEqual(completed.state);
+  });
+
+  it('ignores consequence and time events on their own', () => {
+    const base = makeState();
+    const records: EventRecord[] = [
+      { seq: 1, atMs: 2000000, event: { type: 'stat_changed', deltas: { agency: 5 } } },
+      { seq: 2, atMs: 2000000, event: { type: 'time_context_changed', previousRange: 'long_gap', newRange: 'recent' } },
+    ];
+
+    expect(foldEvents(base, records, catalog)).toBe(base);
+  });
+
+  it('skips quests missing from the catalog', () => {
+    const base = makeState();
+    const records: EventRecord[] = [
+      { seq: 1, atMs: 2000000, questId: 'retired-quest', event: { type: 'quest_completed', questId: 'retired-quest', questType: 'order' } },
+    ];
+
+    expect(foldEvents(base, records, catalog)).toBe(base);
+  });
+});
+
+describe('PlayerStateDO history', () => {
+  it('rebuilds the stored state after actions spread over weeks', async () => {
+    const stub = env.PLAYER_STATE_DO.get(env.PLAYER_STATE_DO.idFromName('history-player'));
+    const startMs = Date.UTC(2025, 0, 1, 9);
+    const actions = [
+      { atMs: startMs, action: 'start', questId: 'v1-agency-uncertain-start' },
+      { atMs: startMs + HOUR_MS, action: 'complete', questId: 'v1-agency-uncertain-start' },
+      { atMs: startMs + 3 * DAY_MS, action: 'start', questId: 'v1-courage-difficult-truth' },
+      { atMs: startMs + 3 * DAY_MS + HOUR_MS, action: 'set_aside', questId: 'v1-courage-difficult-truth' },
+      { atMs: startMs + 15 * DAY_MS, action: 'start', questId: 'v1-order-remove-friction' },
+      { atMs: startMs + 15 * DAY_MS + 2 * HOUR_MS, action: 'complete', questId: 'v1-order-remove-friction' },
+    ] as const;
+
+    for (const { atMs, action, questId } of actions) {
+      expect((await stub.applyAction(action, questId, atMs)).outcome).toBe('applied');
+    }
+
+    const lastMs = actions[actions.length - 1].atMs;
+    const { state } = await stub.getState(lastMs);
+
+    expect(await stub.rebuild()).toEqual(state);
+  });
+
+  it('rebuilds with the thresholds in effect when each transition ran', async () => {
+    const stub = env.PLAYER_STATE_DO.get(env.PLAYER_STATE_DO.idFromName('history-overrides-player'));
+    const shortThresholds = { timeThresholdsMs: { recentMs: HOUR_MS, longGapMs: DAY_MS } };
+    const startMs = Date.UTC(2025, 0, 1, 9);
+    const lastMs = startMs + 5 * DAY_MS + 2 * HOUR_MS;
+    const run = async (action: 'start' | 'complete' | 'set_aside', questId: string, atMs: number) =>
+      expect((await stub.applyAction(action, questId, atMs)).outcome).toBe('applied');
+
+    expect((await stub.setEngineOverrides(shortThresholds)).ok).toBe(true);
+    await run('start', 'v1-agency-uncertain-start', startMs);
+    await run('complete', 'v1-agency-uncertain-start', startMs + 2 * HOUR_MS);
+    await run('start', 'v1-courage-difficult-truth', startMs + 3 * DAY_MS);
+    await run('set_aside', 'v1-courage-difficult-truth', startMs + 3 * DAY_MS + HOUR_MS);
+
+    expect((await stub.setEngineOverrides({})).ok).toBe(true);
+    await run('start', 'v1-order-remove-friction', startMs + 5 * DAY_MS);
+    await run('complete', 'v1-order-remove-friction', lastMs);
+
+    // Changed again after the last transition: the stored state was not ticked with these
+    expect((await stub.setEngineOverrides(shortThresholds)).ok).toBe(true);
+    const { state } = await stub.getState(lastMs);
+
+    expect(await stub.rebuild()).toEqual(state);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Idempotency helper tests.
+ *
+ * Verifies how requests are fingerprinted, which keys are accepted, which
+ * responses are cached for replay, and that retries through the worker
+ * run a completion only once.
+ */
+
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAY_HEADER,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  isCacheableStatus,
+  isValidIdempotencyKey,
+  requestFingerprint,
+} from '../src/http/idempotency';
+
+describe('requestFingerprint', () => {
+  it('combines method, path and a hash of the body', async () => {
+    const request = new Request('https://example.com/api/quests/q1/complete', { method: 'POST' });
+    expect(await requestFingerprint(request)).toMatch(/^POST \/api\/quests\/q1\/complete [0-9a-f]{64}$/);
+  });
+
+  it('ignores the query string and origin', async () => {
+    const first = new Request('https://a.example.com/api/quests/q1/start?x=1', { method: 'POST' });
+    const second = new Request('http://localhost:8787/api/quests/q1/start', { method: 'POST' });
+    expect(await requestFingerprint(first)).toBe(await requestFingerprint(second));
+  });
+
+  it('differs between routes', async () => {
+    const start = new Request('https://example.com/api/quests/q1/start', { method: 'POST' });
+    const complete = new Request('https://example.com/api/quests/q1/complete', { method: 'POST' });
+    expect(await requestFingerprint(start)).not.toBe(await requestFingerprint(complete));
+  });
+
+  it('differs between bodies and leaves the body readable', async () => {
+    const url = 'https://example.com/api/quests/q1/action';
+    const first = new Request(url, { method: 'POST', body: JSON.stringify({ action: 'Cleared the desk' }) });
+    const second = new Request(url, { method: 'POST', body: JSON.stringify({ action: 'Sent the email' }) });
+
+    expect(await requestFingerprint(first)).not.toBe(await requestFingerprint(second));
+    expect(await first.json()).toEqual({ action: 'Cleared the desk' });
+  });
+});
+
+describe('isValidIdempotencyKey', () => {
+  it('accepts ordinary keys', () => {
+    expect(isValidIdempotencyKey('3f1c9a')).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(MAX_IDEMPOTENCY_KEY_LENGTH))).toBe(true);
+  });
+
+  it('rejects empty and overlong keys', () => {
+    expect(isValidIdempotencyKey('')).toBe(false);
+    expect(isValidIdempotencyKey('   ')).toBe(false);
+    expect(isValidIdempotencyKey('a'.repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1))).toBe(false);
+  });
+});
+
+describe('isCacheableStatus', () => {
+  it('caches successes and client errors', () => {
+    expect(isCacheableStatus(200)).toBe(true);
+    expect(isCacheableStatus(404)).toBe(true);
+    expect(isCacheableStatus(422)).toBe(true);
+  });
+
+  it('keeps server errors and conflicts retryable', () => {
+    expect(isCacheableStatus(409)).toBe(false);
+    expect(isCacheableStatus(500)).toBe(false);
+    expect(isCacheableStatus(503)).toBe(false);
+  });
+});
+
+describe('Idempotency-Key on POST routes', () => {
+  const questId = 'v1-agency-uncertain-start';
+
+  function post(path: string, playerId: string, idempotencyKey?: string, body?: unknown) {
+    const headers: Record<string, string> = { 'X-Player-Id': playerId };
+    if (idempotencyKey) {
+      headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
+    }
+    return SELF.fetch(`https://example.com${path}`, {
+      method: 'POST',
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  it('applies concurrent retries of a completion once', async () => {
+    await post(`/api/quests/${questId}/start`, 'concurrent-player');
+
+    const responses = await Promise.all([
+      post(`/api/quests/${questId}/complete`, 'concurrent-player', 'complete-1'),
+      post(`/api/quests/${questId}/complete`, 'concurrent-player', 'complete-1'),
+    ]);
+    const bodies = await Promise.all(responses.map((response) => response.json<{ error?: string }>()));
+
+    // Neither retry ran the engine a second time (that would answer "Quest not started")
+    expect(bodies.map((body) => body.error)).not.toContain('Quest not started');
+
+    const retry = await post(`/api/quests/${questId}/complete`, 'concurrent-player', 'complete-1');
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+
+    const receipts = await SELF.fetch('https://example.com/api/receipts', { headers: { 'X-Player-Id': 'concurrent-player' } });
+    expect((await receipts.json<{ receipts: unknown[] }>()).receipts).toHaveLength(1);
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    const first = await post('/api/timezone', 'body-player', 'tz-1', { timeZone: 'Europe/Paris' });
+    const reused = await post('/api/timezone', 'body-player', 'tz-1', { timeZone: 'Asia/Tokyo' });
+
+    expect(first.status).toBe(200);
+    expect(reused.status).toBe(422);
+
+    const timeZone = await SELF.fetch('https://example.com/api/timezone', { headers: { 'X-Player-Id': 'body-player' } });
+    expect((await timeZone.json<{ timeZone: string }>()).timeZone).toBe('Europe/Paris');
+  });
+
+  it('does not cache a conflict', async () => {
+    const conflict = await post(`/api/quests/${questId}/complete`, 'conflict-player', 'complete-2');
+    expect(conflict.status).toBe(409);
+
+    await post(`/api/quests/${questId}/start`, 'conflict-player');
+    const retry = await post(`/api/quests/${questId}/complete`, 'conflict-player', 'complete-2');
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+  });
+});
@@ -2,13 +2,19 @@
  * Narrative layer unit tests.
  *
  * Verifies that narrative summaries are generated correctly and avoid
- * guilt language while maintaining proper priority ordering.
+ * guilt language while maintaining proper priority ordering, that
+ * quest-specific fragments resolve by messageKey with generic fallbacks,
+ * and that other events in a batch become secondary lines.
  */
 
 import { describe, it, expect } from 'vitest';
-import { summarize } from '../src/domain/narrative';
+import { NARRATIVE_LIMITS, summarize } from '../src/domain/narrative';
 import type { EngineEvent } from '../src/domain/events';
 import type { CharacterState } from '../src/domain/state';
+import type { QuestNarrativeMoment } from '../src/domain/quests';
+import { completeQuest, setAsideQuest, startQuest } from '../src/domain/engine';
+import { buildFragmentRegistry, questMessageKey, questNarrativeNote } from '../src/domain/fragments';
+import { catalog, narrativeFragments } from '../src/quests/catalog';
 
 // ============================================================================
 // Test Helpers
@@ -129,6 +135,24 @@ describe('narrative.summarize', () => {
     expect(result?.title).toBe('Quest started');
   });
 
+  it('summarizes quest_set_aside calmly without shareText', () => {
+    const state = makeTestState();
+    const events: EngineEvent[] = [
+      { type: 'flag_changed', flagsSet: ['held-back'] },
+      {
+        type: 'quest_set_aside',
+        questId: 'test-quest',
+        questType: 'courage',
+      },
+    ];
+
+    const result = summarize(events, state);
+
+    expect(result?.tone).toBe('calm');
+    expect(result?.title).toBe('Set aside');
+    expect(result?.shareText).toBeUndefined();
+  });
+
   it('prioritizes re_entry_suggested over time_context_changed', () => {
     const state = makeTestState();
     const events: EngineEvent[] = [
@@ -174,8 +198,11 @@ describe('narrative.summarize', () => {
     const eventTypes: Array<EngineEvent['type']> = [
       'quest_completed',
       'quest_started',
+      'quest_set_aside',
+      'rest_suggested',
       're_entry_suggested',
       'time_context_changed',
+      'momentum_changed',
       'stat_changed',
       'flag_changed',
     ];
@@ -194,6 +221,14 @@ describe('narrative.summarize', () => {
             { type: 'quest_started', questId: 'test', questType: 'agency' },
           ];
           break;
+        case 'quest_set_aside':
+          events = [
+            { type: 'quest_set_aside', questId: 'test', questType: 'courage' },
+          ];
+          break;
+        case 'rest_suggested':
+          events = [{ type: 'rest_suggested', policy: 'rolling_rest' }];
+          break;
         case 're_entry_suggested':
           events = [{ type: 're_entry_suggested', currentRange: 'long_gap' }];
           break;
@@ -206,6 +241,9 @@ describe('narrative.summarize', () => {
             },
           ];
           break;
+        case 'momentum_changed':
+          events = [{ type: 'momentum_changed', previousMomentum: 'present', newMomentum: 'fading' }];
+          break;
         case 'stat_changed':
           events = [{ type: 'stat_changed', deltas: { agency: 1 } }];
           break;
@@ -272,3 +310,199 @@ describe('narrative.summarize', () => {
     }
   });
 });
+
+describe('narrative tone', () => {
+  it('keeps a tone attached to the chosen event', () => {
+    const state = makeTestState();
+    const events: EngineEvent[] = [
+      {
+        type: 're_entry_suggested',
+        currentRange: 'gap',
+        narrative: { tone: 'observational', messageKey: 're-entry.gap' },
+      },
+    ];
+
+    expect(summarize(events, state)?.tone).toBe('observational');
+  });
+
+  it('uses the default tone for events without a note', () => {
+    const state = makeTestState();
+
+    expect(summarize([{ type: 'quest_set_aside', questId: 'test', questType: 'courage' }], state)?.tone).toBe('calm');
+  });
+
+  it("carries a fragment's tone from the quest to the summary", () => {
+    const quest = {
+      ...catalog.getQuestById('v1-order-remove-friction')!,
+      narrative: { completed: { tone: 'observational' as const, title: 'Friction removed', line: 'One obstacle is gone.' } },
+    };
+    const completed: EngineEvent[] = [
+      {
+        type: 'quest_completed',
+        questId: quest.id,
+        questType: quest.type,
+        narrative: questNarrativeNote(quest, 'completed'),
+      },
+    ];
+
+    expect(completed[0]).toMatchObject({ narrative: { tone: 'observational' } });
+    expect(summarize(completed, makeTestState(), buildFragmentRegistry([quest]))?.tone).toBe('observational');
+  });
+});
+
+describe('quest narrative fragments', () => {
+  const nowMs = Date.UTC(2025, 5, 10, 9, 0);
+
+  it('keys every fragment the catalog declares', () => {
+    const declared = (catalog.listAll?.() ?? []).flatMap((quest) =>
+      Object.keys(quest.narrative ?? {}).map((moment) => questMessageKey(quest.id, moment as QuestNarrativeMoment))
+    );
+
+    expect(Array.from(narrativeFragments.keys()).sort()).toEqual(declared.sort());
+    expect(narrativeFragments.size).toBeGreaterThan(0);
+  });
+
+  it('attaches messageKeys to quest events that have a fragment', () => {
+    const started = startQuest(makeTestState(), 'v1-courage-difficult-truth', catalog, nowMs);
+    const setAside = setAsideQuest(started.state, 'v1-courage-difficult-truth', catalog, nowMs);
+    const startEvent = started.events.find((e) => e.type === 'quest_started');
+    const setAsideEvent = setAside.events.find((e) => e.type === 'quest_set_aside');
+
+    // No started fragment: generic copy, no note
+    expect(startEvent?.narrative).toBeUndefined();
+    expect(setAsideEvent?.narrative).toEqual({
+      tone: 'calm',
+      messageKey: 'quest.v1-courage-difficult-truth.setAside',
+    });
+  });
+
+  it("uses the quest's own copy when its messageKey resolves", () => {
+    const started = startQuest(makeTestState(), 'v1-order-remove-friction', catalog, nowMs);
+    const completed = completeQuest(started.state, 'v1-order-remove-friction', catalog, nowMs);
+
+    const result = summarize(completed.events, completed.state, narrativeFragments);
+
+    expect(result).toEqual({
+      tone: 'warm',
+      title: 'Friction removed',
+      line: 'One obstacle is gone. The next action just got a little easier.',
+      shareText: 'Removed one small source of friction. Less in the way now.',
+      secondary: [{ title: 'Path opened', line: 'Your choices shape what becomes available next.' }],
+    });
+  });
+
+  it('falls back to generic copy for unknown keys and missing share text', () => {
+    const state = makeTestState();
+    const event: EngineEvent = {
+      type: 'quest_completed',
+      questId: 'test-quest',
+      questType: 'order',
+      narrative: { tone: 'warm', messageKey: questMessageKey('test-quest', 'completed') },
+    };
+    const fragments = buildFragmentRegistry([
+      {
+        id: 'test-quest',
+        type: 'order',
+        context: 'Test context',
+        realWorldAction: 'Test action',
+        constraint: 'Test constraint.',
+        consequence: { statChanges: { order: 1 } },
+        narrative: { completed: { title: 'Test title', line: 'Test line.' } },
+      },
+    ]);
+
+    expect(summarize([event], state)?.title).toBe('Action completed');
+    expect(summarize([event], state, fragments)).toEqual({
+      tone: 'warm',
+      title: 'Test title',
+      line: 'Test line.',
+      shareText: 'Completed a Order quest. Small steps compound.',
+    });
+  });
+});
+
+describe('multi-event composition', () => {
+  const completed: EngineEvent = { type: 'quest_completed', questId: 'test-quest', questType: 'courage' };
+
+  it('adds secondary lines for re-entry and returning momentum', () => {
+    const result = summarize(
+      [
+        { type: 'momentum_changed', previousMomentum: 'absent', newMomentum: 'present' },
+        { type: 're_entry_suggested', currentRange: 'long_gap' },
+        completed,
+      ],
+      makeTestState()
+    );
+
+    expect(result?.title).toBe('Action completed');
+    expect(result?.secondary?.map((line) => line.title)).toEqual(['Return to action', 'Momentum building']);
+  });
+
+  it('says "Path opened" once when flags and unlocks both open something', () => {
+    const result = summarize(
+      [
+        { type: 'stat_changed', deltas: { courage: 1 } },
+        { type: 'flag_changed', flagsSet: ['spoke-difficult-truth'] },
+        { type: 'quests_unlocked', questIds: ['next-quest'] },
+        completed,
+      ],
+      makeTestState()
+    );
+
+    expect(result?.secondary).toEqual([{ title: 'Path opened', line: 'Something new is now within reach.' }]);
+  });
+
+  it('keeps at most two secondary lines and drops repeats of the primary title', () => {
+    const result = summarize(
+      [
+        { type: 'time_context_changed', previousRange: 'long_gap', newRange: 'recent' },
+        { type: 'momentum_changed', previousMomentum: 'absent', newMomentum: 'present' },
+        { type: 're_entry_suggested', currentRange: 'gap' },
+        { type: 'quests_unlocked', questIds: ['next-quest'] },
+        { type: 'quest_started', questId: 'test-quest', questType: 'agency' },
+      ],
+      makeTestState()
+    );
+
+    expect(result?.title).toBe('Quest started');
+    expect(result?.secondary?.map((line) => line.title)).toEqual(['Return to action', 'Momentum building']);
+  });
+
+  it('never turns fading momentum or cleared flags into a line', () => {
+    const result = summarize(
+      [
+        completed,
+        { type: 'momentum_changed', previousMomentum: 'present', newMomentum: 'fading' },
+        { type: 'flag_changed', flagsCleared: ['old-flag'] },
+      ],
+      makeTestState()
+    );
+
+    expect(result).not.toHaveProperty('secondary');
+  });
+
+  it('does not repeat the primary event as a secondary line', () => {
+    const result = summarize([{ type: 're_entry_suggested', currentRange: 'gap' }], makeTestState());
+
+    expect(result?.title).toBe('Return to action');
+    expect(result).not.toHaveProperty('secondary');
+  });
+
+  it('respects character limits for every line', () => {
+    const result = summarize(
+      [
+        completed,
+        { type: 'momentum_changed', previousMomentum: 'absent', newMomentum: 'present' },
+        { type: 'quests_unlocked', questIds: ['next-quest'] },
+      ],
+      makeTestState()
+    );
+
+    for (const line of [result!, ...(result?.secondary ?? [])]) {
+      expect(line.title.length).toBeLessThanOrEqual(NARRATIVE_LIMITS.title);
+      expect(line.line.length).toBeLessThanOrEqual(NARRATIVE_LIMITS.line);
+    }
+    expect(result?.secondary).toHaveLength(2);
+    expect(result?.shareText?.length).toBeLessThanOrEqual(NARRATIVE_LIMITS.shareText);
+  });
+});
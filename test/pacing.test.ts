@@ -0,0 +1,157 @@
+/**
+ * Pacing policy tests.
+ *
+ * Verifies when each pacing policy suggests rest, that quest selection
+ * offers nothing while resting, and that rest is explained and narrated.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { QuestNodeWithAvailability } from '../src/domain/quests';
+import type { CharacterState, CompletionHistory } from '../src/domain/state';
+import { getAvailableQuests, type QuestCatalog } from '../src/domain/engine';
+import { DEFAULT_ENGINE_CONFIG, validateEngineConfig } from '../src/domain/config';
+import { explainAvailability } from '../src/domain/rules';
+import { summarize } from '../src/domain/narrative';
+import { DEFAULT_PACING_POLICY, suggestRest, validatePacingPolicy, type PacingPolicy } from '../src/domain/pacing';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const quest: QuestNodeWithAvailability = {
+  id: 'test-quest',
+  type: 'order',
+  context: 'Test context',
+  realWorldAction: 'Test action',
+  constraint: 'Test constraint.',
+  consequence: { statChanges: { order: 1 } },
+  availability: { stats: {}, flags: {} },
+  repeatable: { cooldownMs: 0 },
+};
+
+const testCatalog: QuestCatalog = {
+  getQuestById: (questId) => (questId === quest.id ? quest : undefined),
+  listAll: () => [quest],
+};
+
+function makeState(completedAt?: Record<string, number>): CharacterState {
+  const completions: CompletionHistory = {};
+  for (const [questId, lastCompletedAtMs] of Object.entries(completedAt ?? {})) {
+    completions[questId] = { questId, count: 1, lastCompletedAtMs, lastCompletedRange: 'recent' };
+  }
+
+  return {
+    stats: { agency: 5, courage: 3, order: 4 },
+    flags: new Set(),
+    timeContext: { range: 'recent', nowMs: 0, lastMeaningfulActionMs: 0 },
+    completions,
+  };
+}
+
+function withPacing(pacing: PacingPolicy) {
+  return { ...DEFAULT_ENGINE_CONFIG, pacing };
+}
+
+// 20:00 UTC, four hours before UTC midnight
+const completedAtMs = Date.UTC(2025, 5, 10, 20, 0);
+const completedToday = makeState({ 'test-quest': completedAtMs });
+
+describe('suggestRest', () => {
+  it('defaults to the daily rest', () => {
+    expect(DEFAULT_PACING_POLICY).toEqual({ kind: 'daily_rest' });
+    expect(suggestRest(completedToday, completedAtMs + HOUR_MS)).toEqual({
+      type: 'rest_suggested',
+      policy: 'daily_rest',
+    });
+    expect(suggestRest(completedToday, completedAtMs + 5 * HOUR_MS)).toBeNull();
+  });
+
+  it("ends the daily rest at the player's local midnight", () => {
+    // 13:00 in California, so the next local day starts 11 hours later
+    expect(suggestRest(completedToday, completedAtMs + 5 * HOUR_MS, DEFAULT_PACING_POLICY, 'America/Los_Angeles')).not.toBeNull();
+    expect(suggestRest(completedToday, completedAtMs + 12 * HOUR_MS, DEFAULT_PACING_POLICY, 'America/Los_Angeles')).toBeNull();
+  });
+
+  it('ends a rolling rest once the window has passed since the last completion', () => {
+    const policy: PacingPolicy = { kind: 'rolling_rest', windowMs: 8 * HOUR_MS };
+
+    expect(suggestRest(completedToday, completedAtMs + 5 * HOUR_MS, policy)).toEqual({
+      type: 'rest_suggested',
+      policy: 'rolling_rest',
+    });
+    expect(suggestRest(completedToday, completedAtMs + 8 * HOUR_MS, policy)).toBeNull();
+  });
+
+  it('uses the most recent completion for a rolling rest', () => {
+    const state = makeState({ older: completedAtMs - 20 * HOUR_MS, 'test-quest': completedAtMs });
+    const policy: PacingPolicy = { kind: 'rolling_rest', windowMs: 8 * HOUR_MS };
+
+    expect(suggestRest(state, completedAtMs + HOUR_MS, policy)).not.toBeNull();
+  });
+
+  it('never suggests rest without a policy or without completions', () => {
+    expect(suggestRest(completedToday, completedAtMs + HOUR_MS, { kind: 'none' })).toBeNull();
+    expect(suggestRest(makeState(), completedAtMs, DEFAULT_PACING_POLICY)).toBeNull();
+    expect(suggestRest(makeState(), completedAtMs, { kind: 'rolling_rest', windowMs: HOUR_MS })).toBeNull();
+  });
+});
+
+describe('validatePacingPolicy', () => {
+  it('requires a positive rolling window', () => {
+    expect(validatePacingPolicy({ kind: 'rolling_rest', windowMs: HOUR_MS })).toEqual([]);
+    expect(validatePacingPolicy({ kind: 'rolling_rest', windowMs: 0 })).toEqual([
+      'pacing.windowMs must be a positive number',
+    ]);
+    expect(validateEngineConfig(withPacing({ kind: 'rolling_rest', windowMs: Number.NaN }))).toEqual([
+      'pacing.windowMs must be a positive number',
+    ]);
+  });
+});
+
+describe('getAvailableQuests with pacing', () => {
+  it('offers nothing and emits rest_suggested while resting', () => {
+    const result = getAvailableQuests(completedToday, testCatalog, completedAtMs + HOUR_MS);
+
+    expect(result.quests).toEqual([]);
+    expect(result.events).toEqual([{ type: 'rest_suggested', policy: 'daily_rest' }]);
+  });
+
+  it("applies the daily rest in the player's time zone", () => {
+    const nowMs = completedAtMs + 5 * HOUR_MS;
+
+    expect(getAvailableQuests(completedToday, testCatalog, nowMs).quests).toHaveLength(1);
+    expect(getAvailableQuests(completedToday, testCatalog, nowMs, DEFAULT_ENGINE_CONFIG, 'America/Los_Angeles').quests).toEqual([]);
+  });
+
+  it('offers quests with no rest events when the policy allows', () => {
+    const result = getAvailableQuests(completedToday, testCatalog, completedAtMs + HOUR_MS, withPacing({ kind: 'none' }));
+
+    expect(result).toEqual({ quests: [quest], events: [] });
+  });
+});
+
+describe('rest explanation and narrative', () => {
+  it('explains a rolling rest as a blocking reason', () => {
+    const explanation = explainAvailability(
+      completedToday,
+      quest,
+      completedAtMs + HOUR_MS,
+      'UTC',
+      { kind: 'rolling_rest', windowMs: 8 * HOUR_MS }
+    );
+
+    expect(explanation.reasons).toEqual([{ kind: 'rolling_rest' }]);
+  });
+
+  it('summarizes rest calmly for each policy', () => {
+    const daily = summarize([{ type: 'rest_suggested', policy: 'daily_rest' }], completedToday);
+    const rolling = summarize([{ type: 'rest_suggested', policy: 'rolling_rest' }], completedToday);
+
+    expect(daily).toEqual({
+      tone: 'calm',
+      title: 'Rest for today',
+      line: "You've already taken a step today. Come back tomorrow for your next quest.",
+    });
+    expect(rolling?.tone).toBe('calm');
+    expect(rolling?.title).toBe('Rest for now');
+    expect(rolling?.line.length).toBeLessThanOrEqual(140);
+  });
+});
@@ -5,9 +5,13 @@
  * repeatable quests respect cooldowns, and calm narrative is returned when no quests are available.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import type { QuestNodeWithAvailability } from '../src/domain/quests';
-import type { CharacterState } from '../src/domain/state';
+import type { CharacterState, CompletionHistory } from '../src/domain/state';
+import { completeQuest, getAvailableQuests, startQuest } from '../src/domain/engine';
+import type { QuestCatalog } from '../src/domain/engine';
+import { filterAvailableQuests } from '../src/domain/rules';
+import { DEFAULT_ENGINE_CONFIG } from '../src/domain/config';
 
 // Mock quests for testing
 const mockNonRepeatableQuest: QuestNodeWithAvailability = {
@@ -44,7 +48,12 @@ const mockRepeatableQuest: QuestNodeWithAvailability = {
   },
 };
 
-function makeTestState(): CharacterState {
+function makeTestState(completedAt?: Record<string, number>): CharacterState {
+  const completions: CompletionHistory = {};
+  for (const [questId, lastCompletedAtMs] of Object.entries(completedAt ?? {})) {
+    completions[questId] = { questId, count: 1, lastCompletedAtMs, lastCompletedRange: 'recent' };
+  }
+
   return {
     stats: { agency: 5, courage: 3, order: 4 },
     flags: new Set(),
@@ -53,63 +62,52 @@ function makeTestState(): CharacterState {
       nowMs: Date.now(),
       lastMeaningfulActionMs: Date.now(),
     },
+    completions,
   };
 }
 
+const testCatalog: QuestCatalog = {
+  getQuestById: (questId) => [mockNonRepeatableQuest, mockRepeatableQuest].find((quest) => quest.id === questId),
+  listAll: () => [mockNonRepeatableQuest, mockRepeatableQuest],
+};
+
 describe('Quest Lifecycle', () => {
   describe('Completed Quest Tracking', () => {
-    it('tracks completed quest IDs', () => {
-      const completedQuestIds: string[] = [];
-      const completedAtByQuestId: Record<string, number> = {};
-      const questId = 'test-quest';
+    it('records a completion in state', () => {
       const nowMs = Date.now();
+      const started = startQuest(makeTestState(), 'test-non-repeatable', testCatalog, nowMs);
 
-      // Simulate quest completion
-      if (!completedQuestIds.includes(questId)) {
-        completedQuestIds.push(questId);
-      }
-      completedAtByQuestId[questId] = nowMs;
+      const result = completeQuest(started.state, 'test-non-repeatable', testCatalog, nowMs + 100);
 
-      expect(completedQuestIds).toContain(questId);
-      expect(completedAtByQuestId[questId]).toBe(nowMs);
+      expect(result.state.completions).toEqual({
+        'test-non-repeatable': {
+          questId: 'test-non-repeatable',
+          count: 1,
+          lastCompletedAtMs: nowMs + 100,
+          lastCompletedRange: 'recent',
+        },
+      });
     });
 
-    it('deduplicates completed quest IDs', () => {
-      const completedQuestIds: string[] = ['test-quest'];
-      const questId = 'test-quest';
+    it('keeps one record per quest and counts repeats', () => {
       const nowMs = Date.now();
+      const state = makeTestState({ 'test-repeatable': nowMs - 5000 });
+      const started = startQuest(state, 'test-repeatable', testCatalog, nowMs);
 
-      // Simulate quest completion (should not duplicate)
-      if (!completedQuestIds.includes(questId)) {
-        completedQuestIds.push(questId);
-      }
+      const result = completeQuest(started.state, 'test-repeatable', testCatalog, nowMs);
 
-      expect(completedQuestIds.filter((id) => id === questId).length).toBe(1);
+      expect(Object.keys(result.state.completions ?? {})).toEqual(['test-repeatable']);
+      expect(result.state.completions?.['test-repeatable']).toMatchObject({ count: 2, lastCompletedAtMs: nowMs });
     });
   });
 
   describe('Non-Repeatable Quest Filtering', () => {
     it('filters out completed non-repeatable quests', () => {
-      const completedQuestIds = ['test-non-repeatable'];
-      const completedAtByQuestId: Record<string, number> = {
-        'test-non-repeatable': Date.now(),
-      };
-      const quests = [mockNonRepeatableQuest, mockRepeatableQuest];
       const nowMs = Date.now();
+      const state = makeTestState({ 'test-non-repeatable': nowMs });
+      const quests = [mockNonRepeatableQuest, mockRepeatableQuest];
 
-      const availableQuests = quests.filter((quest) => {
-        if (completedQuestIds.includes(quest.id)) {
-          if (quest.repeatable) {
-            const completedAt = completedAtByQuestId[quest.id];
-            if (completedAt !== undefined) {
-              const elapsed = nowMs - completedAt;
-              return elapsed >= quest.repeatable.cooldownMs;
-            }
-          }
-          return false;
-        }
-        return true;
-      });
+      const availableQuests = filterAvailableQuests(state, quests, nowMs);
 
       expect(availableQuests).not.toContainEqual(mockNonRepeatableQuest);
       expect(availableQuests).toContainEqual(mockRepeatableQuest);
@@ -118,53 +116,19 @@ describe('Quest Lifecycle', () => {
 
   describe('Repeatable Quest Cooldown', () => {
     it('filters out repeatable quests still in cooldown', () => {
-      const completedQuestIds = ['test-repeatable'];
       const nowMs = Date.now();
-      const completedAt = nowMs - 500; // 500ms ago (still in cooldown)
-      const completedAtByQuestId: Record<string, number> = {
-        'test-repeatable': completedAt,
-      };
-      const quests = [mockRepeatableQuest];
-
-      const availableQuests = quests.filter((quest) => {
-        if (completedQuestIds.includes(quest.id)) {
-          if (quest.repeatable) {
-            const completedAt = completedAtByQuestId[quest.id];
-            if (completedAt !== undefined) {
-              const elapsed = nowMs - completedAt;
-              return elapsed >= quest.repeatable.cooldownMs;
-            }
-          }
-          return false;
-        }
-        return true;
-      });
+      const state = makeTestState({ 'test-repeatable': nowMs - 500 }); // 500ms ago (still in cooldown)
+
+      const availableQuests = filterAvailableQuests(state, [mockRepeatableQuest], nowMs);
 
       expect(availableQuests.length).toBe(0);
     });
 
     it('allows repeatable quests after cooldown', () => {
-      const completedQuestIds = ['test-repeatable'];
       const nowMs = Date.now();
-      const completedAt = nowMs - 2000; // 2 seconds ago (cooldown passed)
-      const completedAtByQuestId: Record<string, number> = {
-        'test-repeatable': completedAt,
-      };
-      const quests = [mockRepeatableQuest];
-
-      const availableQuests = quests.filter((quest) => {
-        if (completedQuestIds.includes(quest.id)) {
-          if (quest.repeatable) {
-            const completedAt = completedAtByQuestId[quest.id];
-            if (completedAt !== undefined) {
-              const elapsed = nowMs - completedAt;
-              return elapsed >= quest.repeatable.cooldownMs;
-            }
-          }
-          return false;
-        }
-        return true;
-      });
+      const state = makeTestState({ 'test-repeatable': nowMs - 2000 }); // 2 seconds ago (cooldown passed)
+
+      const availableQuests = filterAvailableQuests(state, [mockRepeatableQuest], nowMs);
 
       expect(availableQuests).toContainEqual(mockRepeatableQuest);
     });
@@ -205,28 +169,37 @@ describe('Quest Lifecycle', () => {
 
   describe('Quest Availability Logic', () => {
     it('uncompleted quests are always available', () => {
-      const completedQuestIds: string[] = [];
-      const completedAtByQuestId: Record<string, number> = {};
       const quests = [mockNonRepeatableQuest, mockRepeatableQuest];
-      const nowMs = Date.now();
 
-      const availableQuests = quests.filter((quest) => {
-        if (completedQuestIds.includes(quest.id)) {
-          if (quest.repeatable) {
-            const completedAt = completedAtByQuestId[quest.id];
-            if (completedAt !== undefined) {
-              const elapsed = nowMs - completedAt;
-              return elapsed >= quest.repeatable.cooldownMs;
-            }
-          }
-          return false;
-        }
-        return true;
-      });
+      const availableQuests = filterAvailableQuests(makeTestState(), quests, Date.now());
 
       expect(availableQuests.length).toBe(2);
       expect(availableQuests).toContainEqual(mockNonRepeatableQuest);
       expect(availableQuests).toContainEqual(mockRepeatableQuest);
     });
+
+    it('engine selection no longer offers a quest once it is completed', () => {
+      const nowMs = Date.now();
+      const started = startQuest(makeTestState(), 'test-non-repeatable', testCatalog, nowMs);
+      const completed = completeQuest(started.state, 'test-non-repeatable', testCatalog, nowMs);
+
+      const noPacing = { ...DEFAULT_ENGINE_CONFIG, pacing: { kind: 'none' as const } };
+
+      const offered = getAvailableQuests(completed.state, testCatalog, nowMs + 100, noPacing).quests.map(
+        (quest) => quest.id
+      );
+
+      expect(offered).toEqual(['test-repeatable']);
+    });
+
+    it('engine selection suggests rest instead of quests after a completion today', () => {
+      const nowMs = Date.UTC(2025, 5, 10, 9, 0);
+      const started = startQuest(makeTestState(), 'test-non-repeatable', testCatalog, nowMs);
+      const completed = completeQuest(started.state, 'test-non-repeatable', testCatalog, nowMs);
+
+      const result = getAvailableQuests(completed.state, testCatalog, nowMs + 100);
+
+      expect(result).toEqual({ quests: [], events: [{ type: 'rest_suggested', policy: 'daily_rest' }] });
+    });
   });
 });
@@ -0,0 +1,115 @@
+/**
+ * Receipt listing tests.
+ *
+ * Verifies that receipt cursors round-trip, that GET /api/receipts
+ * parameters become a page query, that coarse time ranges match the
+ * player's time thresholds, and that a range keeps its window across pages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_RECEIPT_PAGE_SIZE,
+  decodeReceiptCursor,
+  encodeReceiptCursor,
+  parseReceiptQuery,
+  rangeBounds,
+} from '../src/http/receipt-query';
+import { DEFAULT_ENGINE_CONFIG } from '../src/domain/config';
+
+const thresholds = DEFAULT_ENGINE_CONFIG.timeThresholdsMs;
+const nowMs = 1_000_000_000_000;
+
+function parse(query: string) {
+  return parseReceiptQuery(new URLSearchParams(query), nowMs, thresholds, 50);
+}
+
+describe('receipt cursors', () => {
+  it('round-trips through a URL-safe string', () => {
+    const cursor = { createdAtMs: 1735740000000, id: 'bf01ef33-784f-470e-b15f-bd93e91fa032' };
+    const encoded = encodeReceiptCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeReceiptCursor(encoded)).toEqual(cursor);
+  });
+
+  it('carries range bounds through a round trip', () => {
+    const cursor = { createdAtMs: 5, id: 'r-5', bounds: { minCreatedAtMs: 1 } };
+
+    expect(decodeReceiptCursor(encodeReceiptCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects strings that are not cursors', () => {
+    expect(decodeReceiptCursor('not a cursor')).toBeNull();
+    expect(decodeReceiptCursor(btoa(JSON.stringify({ id: 'x' })))).toBeNull();
+  });
+});
+
+describe('parseReceiptQuery', () => {
+  it('defaults to the configured page size with no filters', () => {
+    expect(parse('')).toEqual({ ok: true, query: { limit: 50 } });
+  });
+
+  it('reads every filter', () => {
+    const cursor = encodeReceiptCursor({ createdAtMs: 5, id: 'r-5' });
+    const result = parse(`limit=10&cursor=${cursor}&questType=courage&questId=v1-courage-difficult-truth`);
+
+    expect(result).toEqual({
+      ok: true,
+      query: {
+        limit: 10,
+        after: { createdAtMs: 5, id: 'r-5' },
+        questType: 'courage',
+        questId: 'v1-courage-difficult-truth',
+      },
+    });
+  });
+
+  it('turns a range into creation time bounds', () => {
+    const result = parse('range=gap');
+
+    expect(result.ok && result.query).toMatchObject(rangeBounds('gap', nowMs, thresholds));
+  });
+
+  it('keeps the first page\'s range bounds on later pages', () => {
+    const bounds = rangeBounds('recent', nowMs, thresholds);
+    const cursor = encodeReceiptCursor({ createdAtMs: nowMs - 10, id: 'r-9', bounds });
+
+    // An hour later, the cursor's window still applies
+    const later = parseReceiptQuery(new URLSearchParams(`range=recent&cursor=${cursor}`), nowMs + 3600000, thresholds, 50);
+
+    expect(later.ok && later.query).toMatchObject(bounds);
+  });
+
+  it('lists every invalid parameter', () => {
+    const result = parse(`limit=${MAX_RECEIPT_PAGE_SIZE + 1}&cursor=nope&questType=charisma&range=yesterday`);
+
+    expect(result.ok ? [] : result.issues.map((issue) => issue.field)).toEqual([
+      'limit',
+      'cursor',
+      'questType',
+      'range',
+    ]);
+  });
+});
+
+describe('rangeBounds', () => {
+  const { recentMs, longGapMs } = thresholds;
+
+  it('splits time at the same thresholds as the time context', () => {
+    expect(rangeBounds('recent', nowMs, thresholds)).toEqual({ minCreatedAtMs: nowMs - recentMs + 1 });
+    expect(rangeBounds('gap', nowMs, thresholds)).toEqual({
+      minCreatedAtMs: nowMs - longGapMs + 1,
+      maxCreatedAtMs: nowMs - recentMs,
+    });
+    expect(rangeBounds('long_gap', nowMs, thresholds)).toEqual({ maxCreatedAtMs: nowMs - longGapMs });
+  });
+
+  it('leaves no gap or overlap between ranges', () => {
+    const recent = rangeBounds('recent', nowMs, thresholds);
+    const gap = rangeBounds('gap', nowMs, thresholds);
+    const longGap = rangeBounds('long_gap', nowMs, thresholds);
+
+    expect(gap.maxCreatedAtMs).toBe((recent.minCreatedAtMs as number) - 1);
+    expect(longGap.maxCreatedAtMs).toBe((gap.minCreatedAtMs as number) - 1);
+  });
+});
@@ -2,12 +2,14 @@
  * Receipt tests.
  *
  * Verifies that receipts are created on quest completion, stored correctly,
- * returned in most recent first order, capped at 50, and contain no guilt language.
+ * returned in most recent first order, and contain no guilt language.
  */
 
 import { describe, it, expect } from 'vitest';
 import type { Receipt } from '../src/http/receipt';
-import { generateDefaultShareText } from '../src/http/receipt';
+import { createReceipt, generateDefaultShareText } from '../src/http/receipt';
+import { catalog } from '../src/quests/catalog';
+import type { QuestNodeWithAvailability } from '../src/domain/quests';
 
 describe('Receipt Generation', () => {
   it('generates default shareText for agency quests', () => {
@@ -41,6 +43,38 @@ describe('Receipt Generation', () => {
   });
 });
 
+describe('createReceipt', () => {
+  const quest = catalog.getQuestById('v1-order-remove-friction') as QuestNodeWithAvailability;
+
+  it('builds a receipt from the completion narrative', () => {
+    const receipt = createReceipt(
+      quest,
+      { tone: 'warm', title: 'Friction removed', line: 'The next step is easier now.', shareText: 'Cleared the way.' },
+      1000000
+    );
+
+    expect(receipt).toEqual({
+      id: expect.any(String),
+      createdAtMs: 1000000,
+      questId: 'v1-order-remove-friction',
+      questType: 'order',
+      tone: 'warm',
+      title: 'Friction removed',
+      line: 'The next step is easier now.',
+      shareText: 'Cleared the way.',
+    });
+  });
+
+  it('falls back to calm defaults without a narrative', () => {
+    const receipt = createReceipt(quest, null, 1000000);
+
+    expect(receipt.tone).toBe('calm');
+    expect(receipt.title).toBe('Action completed');
+    expect(receipt.line).toBe('You took a step forward.');
+    expect(receipt.shareText).toBe(generateDefaultShareText('order'));
+  });
+});
+
 describe('Receipt Structure', () => {
   it('has all required fields', () => {
     const receipt: Receipt = {
@@ -82,32 +116,6 @@ describe('Receipt Structure', () => {
 });
 
 describe('Receipt Storage Logic', () => {
-  it('keeps only most recent 50 receipts', () => {
-    const receipts: Receipt[] = [];
-    
-    // Simulate adding 60 receipts
-    for (let i = 0; i < 60; i++) {
-      const receipt: Receipt = {
-        id: `receipt-${i}`,
-        createdAtMs: Date.now() - (60 - i) * 1000, // Older receipts have earlier timestamps
-        questId: `quest-${i}`,
-        questType: 'agency',
-        tone: 'warm',
-        title: 'Action completed',
-        line: 'You took a step.',
-        shareText: 'Took a step forward.',
-      };
-      receipts.push(receipt);
-    }
-
-    // Sort by createdAtMs descending and cap at 50
-    const sorted = receipts.sort((a, b) => b.createdAtMs - a.createdAtMs);
-    const capped = sorted.slice(0, 50);
-
-    expect(capped.length).toBe(50);
-    expect(capped[0].createdAtMs).toBeGreaterThan(capped[49].createdAtMs);
-  });
-
   it('sorts receipts by createdAtMs descending (most recent first)', () => {
     const receipts: Receipt[] = [
       {
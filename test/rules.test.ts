@@ -13,14 +13,21 @@ import {
   filterAvailableQuests,
   rankQuests,
   chooseQuests,
+  evaluateCondition,
+  compileAvailability,
+  explainAvailability,
+  isQuestAvailable,
 } from '../src/domain/rules';
+import { hasCompletedQuestToday } from '../src/domain/pacing';
 import type {
   CharacterState,
+  CompletionHistory,
   Stats,
   TimeContext,
   TimeRange,
 } from '../src/domain/state';
 import type {
+  AvailabilityCondition,
   QuestNodeWithAvailability,
   QuestType,
   QuestAvailability,
@@ -37,6 +44,8 @@ function makeState(overrides?: {
   stats?: Partial<Stats>;
   flags?: string[];
   timeContext?: Partial<TimeContext>;
+  unlockedQuests?: string[];
+  completedAt?: Record<string, number>;
 }): CharacterState {
   const baseStats: Stats = {
     agency: 5,
@@ -54,9 +63,22 @@ function makeState(overrides?: {
     stats: { ...baseStats, ...overrides?.stats },
     flags: new Set(overrides?.flags ?? []),
     timeContext: { ...baseTimeContext, ...overrides?.timeContext ?? {} },
+    unlockedQuests: new Set(overrides?.unlockedQuests ?? []),
+    completions: overrides?.completedAt && makeCompletions(overrides.completedAt),
   };
 }
 
+/**
+ * Creates completion records from last completion times.
+ */
+function makeCompletions(completedAt: Record<string, number>): CompletionHistory {
+  const completions: CompletionHistory = {};
+  for (const [questId, lastCompletedAtMs] of Object.entries(completedAt)) {
+    completions[questId] = { questId, count: 1, lastCompletedAtMs, lastCompletedRange: 'recent' };
+  }
+  return completions;
+}
+
 /**
  * Creates a quest with custom availability conditions.
  */
@@ -166,6 +188,414 @@ describe('filterAvailableQuests', () => {
     expect(result).toHaveLength(1);
     expect(result[0].id).toBe('quest-1');
   });
+
+  it('hides quests that require an unlock until a predecessor unlocks them', () => {
+    // Constraint: quests.md - "Quests exist in a graph, not a flat list"
+    // Constraint: quests.md - "Every quest must change something: A future quest unlocks"
+    const quests: QuestNodeWithAvailability[] = [
+      makeQuest('quest-1', 'agency', {}), // No unlock needed
+      makeQuest('quest-2', 'courage', { requiresUnlock: true }),
+      makeQuest('quest-3', 'order', { requiresUnlock: false }),
+    ];
+
+    const locked = filterAvailableQuests(makeState(), quests, 1000000);
+    expect(locked.map((q) => q.id)).toEqual(['quest-1', 'quest-3']);
+
+    const unlocked = filterAvailableQuests(
+      makeState({ unlockedQuests: ['quest-2'] }),
+      quests,
+      1000000
+    );
+    expect(unlocked.map((q) => q.id)).toEqual(['quest-1', 'quest-2', 'quest-3']);
+  });
+
+  it('still applies other requirements to unlocked quests', () => {
+    const state = makeState({
+      stats: { courage: 1 },
+      unlockedQuests: ['quest-1'],
+    });
+
+    const quests: QuestNodeWithAvailability[] = [
+      makeQuest('quest-1', 'courage', {
+        requiresUnlock: true,
+        stats: { minimum: { courage: 2 } },
+      }),
+    ];
+
+    expect(filterAvailableQuests(state, quests, 1000000)).toEqual([]);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  it('checks stat min and max bounds inclusively', () => {
+    // Constraint: quests.md - "Stats gate availability"
+    const state = makeState({ stats: { order: 6 } });
+
+    expect(evaluateCondition(state, { kind: 'stat', stat: 'order', min: 6 }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'stat', stat: 'order', min: 7 }, 1000000)).toBe(false);
+    expect(evaluateCondition(state, { kind: 'stat', stat: 'order', max: 6 }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'stat', stat: 'order', max: 5 }, 1000000)).toBe(false);
+    expect(
+      evaluateCondition(state, { kind: 'stat', stat: 'order', min: 4, max: 8 }, 1000000)
+    ).toBe(true);
+  });
+
+  it('checks flag presence and absence', () => {
+    // Constraint: quests.md - "Flags unlock quests"
+    const state = makeState({ flags: ['flag-a'] });
+
+    expect(evaluateCondition(state, { kind: 'has_flag', flag: 'flag-a' }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'has_flag', flag: 'flag-b' }, 1000000)).toBe(false);
+    expect(evaluateCondition(state, { kind: 'lacks_flag', flag: 'flag-a' }, 1000000)).toBe(false);
+    expect(evaluateCondition(state, { kind: 'lacks_flag', flag: 'flag-b' }, 1000000)).toBe(true);
+  });
+
+  it('checks the current time range', () => {
+    // Constraint: time.md - "Use ranges instead of exact counts"
+    const state = makeState({ timeContext: { range: 'gap', nowMs: 1000000 } });
+
+    expect(evaluateCondition(state, { kind: 'time_range', in: ['gap', 'long_gap'] }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'time_range', in: ['recent'] }, 1000000)).toBe(false);
+  });
+
+  it('checks unlocked quests', () => {
+    const state = makeState({ unlockedQuests: ['quest-2'] });
+
+    expect(evaluateCondition(state, { kind: 'unlocked', questId: 'quest-2' }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'unlocked', questId: 'quest-3' }, 1000000)).toBe(false);
+  });
+
+  it('checks completed quests', () => {
+    const state = makeState({ completedAt: { 'quest-1': 500000 } });
+
+    expect(evaluateCondition(state, { kind: 'completed', questId: 'quest-1' }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'completed', questId: 'quest-2' }, 1000000)).toBe(false);
+    expect(
+      evaluateCondition(makeState(), { kind: 'completed', questId: 'quest-1' }, 1000000)
+    ).toBe(false);
+  });
+
+  it('checks elapsed time since completion', () => {
+    const nowMs = 10 * DAY_MS;
+    const state = makeState({ completedAt: { 'quest-1': nowMs - 3 * DAY_MS } });
+
+    const atLeastTwoDays: AvailabilityCondition = {
+      kind: 'since_completed',
+      questId: 'quest-1',
+      minMs: 2 * DAY_MS,
+    };
+    const atMostOneDay: AvailabilityCondition = {
+      kind: 'since_completed',
+      questId: 'quest-1',
+      maxMs: DAY_MS,
+    };
+
+    expect(evaluateCondition(state, atLeastTwoDays, nowMs)).toBe(true);
+    expect(evaluateCondition(state, atMostOneDay, nowMs)).toBe(false);
+    // Never completed = never holds
+    expect(
+      evaluateCondition(state, { kind: 'since_completed', questId: 'quest-2', minMs: 0 }, nowMs)
+    ).toBe(false);
+  });
+
+  it('combines conditions with all, any, and not', () => {
+    // courage >= 4 OR flag spoke-difficult-truth
+    const courageOrTruth: AvailabilityCondition = {
+      kind: 'any',
+      conditions: [
+        { kind: 'stat', stat: 'courage', min: 4 },
+        { kind: 'has_flag', flag: 'spoke-difficult-truth' },
+      ],
+    };
+
+    expect(evaluateCondition(makeState({ stats: { courage: 3 } }), courageOrTruth, 1000000)).toBe(false);
+    expect(evaluateCondition(makeState({ stats: { courage: 4 } }), courageOrTruth, 1000000)).toBe(true);
+    expect(
+      evaluateCondition(
+        makeState({ stats: { courage: 1 }, flags: ['spoke-difficult-truth'] }),
+        courageOrTruth,
+        1000000
+      )
+    ).toBe(true);
+
+    const notRecent: AvailabilityCondition = {
+      kind: 'not',
+      condition: { kind: 'time_range', in: ['recent'] },
+    };
+    expect(evaluateCondition(makeState(), notRecent, 1000000)).toBe(false);
+
+    const both: AvailabilityCondition = {
+      kind: 'all',
+      conditions: [courageOrTruth, { kind: 'stat', stat: 'order', max: 6 }],
+    };
+    expect(evaluateCondition(makeState({ stats: { courage: 5, order: 6 } }), both, 1000000)).toBe(true);
+    expect(evaluateCondition(makeState({ stats: { courage: 5, order: 7 } }), both, 1000000)).toBe(false);
+  });
+
+  it('treats empty all as holding and empty any as not holding', () => {
+    const state = makeState();
+
+    expect(evaluateCondition(state, { kind: 'all', conditions: [] }, 1000000)).toBe(true);
+    expect(evaluateCondition(state, { kind: 'any', conditions: [] }, 1000000)).toBe(false);
+  });
+
+  it('evaluates conditions that survive a JSON round trip', () => {
+    const condition: AvailabilityCondition = {
+      kind: 'all',
+      conditions: [
+        { kind: 'not', condition: { kind: 'has_flag', flag: 'flag-a' } },
+        { kind: 'stat', stat: 'agency', min: 3 },
+      ],
+    };
+    const parsed = JSON.parse(JSON.stringify(condition)) as AvailabilityCondition;
+
+    expect(parsed).toEqual(condition);
+    expect(evaluateCondition(makeState(), parsed, 1000000)).toBe(true);
+  });
+});
+
+describe('compileAvailability', () => {
+  it('compiles shorthand fields into an all condition', () => {
+    const quest = makeQuest('quest-1', 'courage', {
+      requiresUnlock: true,
+      stats: { minimum: { courage: 2 } },
+      flags: { required: ['flag-a'], blocked: ['flag-b'] },
+      when: { kind: 'time_range', in: ['recent'] },
+    });
+
+    expect(compileAvailability(quest)).toEqual({
+      kind: 'all',
+      conditions: [
+        { kind: 'unlocked', questId: 'quest-1' },
+        { kind: 'stat', stat: 'courage', min: 2 },
+        { kind: 'has_flag', flag: 'flag-a' },
+        { kind: 'lacks_flag', flag: 'flag-b' },
+        { kind: 'time_range', in: ['recent'] },
+      ],
+    });
+  });
+
+  it('compiles empty availability into an always-true condition', () => {
+    const quest = makeQuest('quest-1', 'agency', {
+      stats: {},
+      flags: {},
+      relevance: { preferredRanges: ['gap'] },
+    });
+
+    const compiled = compileAvailability(quest);
+
+    expect(compiled).toEqual({ kind: 'all', conditions: [] });
+    expect(evaluateCondition(makeState(), compiled, 1000000)).toBe(true);
+  });
+});
+
+describe('filterAvailableQuests with when conditions', () => {
+  it('combines when with shorthand requirements', () => {
+    const state = makeState({ stats: { courage: 3, order: 7 }, flags: ['spoke-difficult-truth'] });
+
+    const quests: QuestNodeWithAvailability[] = [
+      makeQuest('quest-1', 'courage', {
+        when: {
+          kind: 'any',
+          conditions: [
+            { kind: 'stat', stat: 'courage', min: 4 },
+            { kind: 'has_flag', flag: 'spoke-difficult-truth' },
+          ],
+        },
+      }),
+      makeQuest('quest-2', 'order', {
+        when: { kind: 'stat', stat: 'order', max: 6 }, // At most order 6 - excluded
+      }),
+      makeQuest('quest-3', 'agency', {
+        flags: { blocked: ['spoke-difficult-truth'] }, // Shorthand blocks
+        when: { kind: 'stat', stat: 'agency', min: 1 },
+      }),
+    ];
+
+    const result = filterAvailableQuests(state, quests, 1000000);
+
+    expect(result.map((q) => q.id)).toEqual(['quest-1']);
+  });
+});
+
+describe('explainAvailability', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  it('reports available with no reasons when nothing blocks', () => {
+    const quest = makeQuest('quest-1', 'agency', { stats: { minimum: { agency: 3 } } });
+
+    const result = explainAvailability(makeState(), quest, 1000000);
+
+    expect(result).toEqual({ questId: 'quest-1', available: true, reasons: [] });
+  });
+
+  it('lists every failing stat and flag requirement', () => {
+    const state = makeState({ stats: { agency: 2 }, flags: ['flag-b'] });
+    const quest = makeQuest('quest-1', 'agency', {
+      requiresUnlock: true,
+      stats: { minimum: { agency: 3 } },
+      flags: { required: ['flag-a'], blocked: ['flag-b'] },
+    });
+
+    const result = explainAvailability(state, quest, 1000000);
+
+    expect(result.available).toBe(false);
+    expect(result.reasons).toEqual([
+      { kind: 'not_unlocked', questId: 'quest-1' },
+      { kind: 'stat_below', stat: 'agency', value: 2, min: 3 },
+      { kind: 'missing_flag', flag: 'flag-a' },
+      { kind: 'blocked_flag', flag: 'flag-b' },
+    ]);
+  });
+
+  it('explains composed conditions', () => {
+    const state = makeState({ stats: { courage: 3, order: 7 } });
+    const quest = makeQuest('quest-1', 'courage', {
+      when: {
+        kind: 'all',
+        conditions: [
+          {
+            kind: 'any',
+            conditions: [
+              { kind: 'stat', stat: 'courage', min: 4 },
+              { kind: 'has_flag', flag: 'spoke-difficult-truth' },
+            ],
+          },
+          { kind: 'stat', stat: 'order', max: 6 },
+          { kind: 'not', condition: { kind: 'time_range', in: ['recent'] } },
+        ],
+      },
+    });
+
+    const result = explainAvailability(state, quest, 1000000);
+
+    expect(result.reasons).toEqual([
+      {
+        kind: 'no_alternative_met',
+        alternatives: [
+          [{ kind: 'stat_below', stat: 'courage', value: 3, min: 4 }],
+          [{ kind: 'missing_flag', flag: 'spoke-difficult-truth' }],
+        ],
+      },
+      { kind: 'stat_above', stat: 'order', value: 7, max: 6 },
+      { kind: 'excluded_by_condition', condition: { kind: 'time_range', in: ['recent'] } },
+    ]);
+  });
+
+  it('reports completed non-repeatable quests', () => {
+    const nowMs = 10 * DAY_MS + 12 * 60 * 60 * 1000; // Midday UTC
+    const state = makeState({ completedAt: { 'quest-1': nowMs - 3 * DAY_MS } });
+    const quest = makeQuest('quest-1', 'agency', {});
+
+    const result = explainAvailability(state, quest, nowMs);
+
+    expect(result.reasons).toEqual([{ kind: 'completed_non_repeatable', questId: 'quest-1' }]);
+  });
+
+  it('reports cooldown remaining for repeatable quests', () => {
+    const nowMs = 10 * DAY_MS + 12 * 60 * 60 * 1000; // Midday UTC
+    const state = makeState({ completedAt: { 'quest-1': nowMs - 2 * DAY_MS } });
+    const quest: QuestNodeWithAvailability = {
+      ...makeQuest('quest-1', 'courage', {}),
+      repeatable: { cooldownMs: 3 * DAY_MS },
+    };
+
+    const result = explainAvailability(state, quest, nowMs);
+
+    expect(result.reasons).toEqual([{ kind: 'cooldown_remaining', questId: 'quest-1', remainingMs: DAY_MS }]);
+  });
+
+  it('reports daily rest after a completion today', () => {
+    const nowMs = 10 * DAY_MS + 12 * 60 * 60 * 1000; // Midday UTC
+    const state = makeState({ completedAt: { 'quest-2': nowMs - 60 * 60 * 1000 } });
+    const quest = makeQuest('quest-1', 'order', {});
+
+    const result = explainAvailability(state, quest, nowMs);
+
+    expect(result.available).toBe(false);
+    expect(result.reasons).toEqual([{ kind: 'daily_rest' }]);
+  });
+
+  it("reports daily rest in the player's time zone", () => {
+    const nowMs = Date.UTC(2025, 5, 11, 2, 0); // 19:00 on June 10 in Los Angeles
+    const state = makeState({ completedAt: { 'quest-2': Date.UTC(2025, 5, 10, 18, 0) } });
+    const quest = makeQuest('quest-1', 'order', {});
+
+    expect(explainAvailability(state, quest, nowMs).available).toBe(true);
+    expect(explainAvailability(state, quest, nowMs, 'America/Los_Angeles').reasons).toEqual([{ kind: 'daily_rest' }]);
+  });
+
+  it('agrees with isQuestAvailable on availability conditions', () => {
+    const states = [
+      makeState(),
+      makeState({ stats: { agency: 1, courage: 6 }, flags: ['flag-a'] }),
+      makeState({ unlockedQuests: ['quest-1'], timeContext: { range: 'gap', nowMs: 1000000 } }),
+    ];
+    const quest = makeQuest('quest-1', 'agency', {
+      requiresUnlock: true,
+      stats: { minimum: { agency: 3 } },
+      when: {
+        kind: 'any',
+        conditions: [
+          { kind: 'has_flag', flag: 'flag-a' },
+          { kind: 'time_range', in: ['gap'] },
+        ],
+      },
+    });
+
+    for (const state of states) {
+      expect(explainAvailability(state, quest, 1000000).available).toBe(
+        isQuestAvailable(state, quest, 1000000)
+      );
+    }
+  });
+});
+
+describe('hasCompletedQuestToday', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  it('uses UTC midnight by default', () => {
+    const state = makeState({ completedAt: { 'quest-1': Date.UTC(2025, 5, 10, 23, 0) } });
+
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 5, 10, 23, 30))).toBe(true);
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 5, 11, 0, 30))).toBe(false);
+  });
+
+  it("follows the player's local midnight, not UTC midnight", () => {
+    // 9:00 in California (16:00 UTC); UTC midnight falls at 17:00 local
+    const completedAtMs = Date.UTC(2025, 5, 10, 16, 0);
+    const state = makeState({ completedAt: { 'quest-1': completedAtMs } });
+
+    expect(hasCompletedQuestToday(state, completedAtMs + 10 * HOUR_MS, 'America/Los_Angeles')).toBe(true);
+    expect(hasCompletedQuestToday(state, completedAtMs + 10 * HOUR_MS)).toBe(false);
+    expect(hasCompletedQuestToday(state, completedAtMs + 16 * HOUR_MS, 'America/Los_Angeles')).toBe(false);
+  });
+
+  it('spans a 23-hour day when clocks spring forward', () => {
+    // 2025-03-09 in Los Angeles: 00:30 PST (08:30 UTC) and 23:30 PDT (06:30 UTC next day)
+    const state = makeState({ completedAt: { 'quest-1': Date.UTC(2025, 2, 9, 8, 30) } });
+
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 2, 10, 6, 30), 'America/Los_Angeles')).toBe(true);
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 2, 10, 7, 30), 'America/Los_Angeles')).toBe(false);
+  });
+
+  it('spans a 25-hour day when clocks fall back', () => {
+    // 2025-11-02 in Los Angeles: 00:15 PDT (07:15 UTC) and 23:45 PST (07:45 UTC next day)
+    const state = makeState({ completedAt: { 'quest-1': Date.UTC(2025, 10, 2, 7, 15) } });
+
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 10, 3, 7, 45), 'America/Los_Angeles')).toBe(true);
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 10, 3, 8, 15), 'America/Los_Angeles')).toBe(false);
+  });
+
+  it('resets at local midnight across a European DST change', () => {
+    // 2025-03-30 in London: 23:30 GMT on the 29th, then 00:30 BST on the 31st
+    const state = makeState({ completedAt: { 'quest-1': Date.UTC(2025, 2, 29, 23, 30) } });
+
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 2, 29, 23, 59), 'Europe/London')).toBe(true);
+    expect(hasCompletedQuestToday(state, Date.UTC(2025, 2, 30, 0, 30), 'Europe/London')).toBe(false);
+  });
 });
 
 describe('rankQuests', () => {
@@ -201,6 +631,30 @@ describe('rankQuests', () => {
     expect(result[4].id).toBe('quest-5');
   });
 
+  it('ranks quests matching both range and momentum above single matches', () => {
+    // Constraint: time.md - "Recent Agency actions lower future resistance"
+    const state = makeState({
+      timeContext: { range: 'gap', nowMs: 1000000, momentum: 'fading' },
+    });
+
+    const quests: QuestNodeWithAvailability[] = [
+      makeQuest('quest-1', 'agency', {}), // No preference
+      makeQuest('quest-2', 'agency', {
+        relevance: { preferredMomentum: ['fading'] }, // Momentum only
+      }),
+      makeQuest('quest-3', 'courage', {
+        relevance: { preferredRanges: ['gap'], preferredMomentum: ['fading'] }, // Both
+      }),
+      makeQuest('quest-4', 'order', {
+        relevance: { preferredMomentum: ['present'] }, // Doesn't match
+      }),
+    ];
+
+    const result = rankQuests(state, quests, 1000000);
+
+    expect(result.map((q) => q.id)).toEqual(['quest-3', 'quest-2', 'quest-1', 'quest-4']);
+  });
+
   it('preserves order within matched and unmatched groups', () => {
     const state = makeState({
       timeContext: { range: 'recent', nowMs: 1000000 },
@@ -0,0 +1,128 @@
+/**
+ * Timeline simulation tests.
+ *
+ * Verifies that scripted timelines replay through the engine deterministically
+ * and that unmet expectations are reported per step.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { simulate, type SimulationScript } from '../src/domain/simulation';
+import type { CharacterState } from '../src/domain/state';
+import { catalog } from '../src/quests/catalog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeState(): CharacterState {
+  return {
+    stats: { agency: 5, courage: 3, order: 4 },
+    flags: new Set(),
+    timeContext: { range: 'long_gap', nowMs: 1000000 },
+  };
+}
+
+describe('simulate', () => {
+  it('replays quest actions at their scripted days', () => {
+    const script: SimulationScript = {
+      steps: [
+        { day: 0, action: 'start', questId: 'v1-agency-uncertain-start' },
+        { day: 1, action: 'complete', questId: 'v1-agency-uncertain-start' },
+        { day: 2, action: 'tick' },
+      ],
+    };
+
+    const result = simulate(makeState(), script, catalog);
+
+    expect(result.passed).toBe(true);
+    expect(result.steps.map((step) => step.atMs)).toEqual([1000000, 1000000 + DAY_MS, 1000000 + 2 * DAY_MS]);
+    expect(result.steps[1].events.map((event) => event.type)).toEqual(
+      expect.arrayContaining(['quest_completed', 'rest_suggested'])
+    );
+    expect(result.steps[1].offered).toEqual([]);
+    expect(result.steps[2].offered.length).toBeGreaterThan(0);
+    expect(result.finalState.stats.agency).toBe(6);
+    expect(result.finalState.flags.has('began-without-clarity')).toBe(true);
+  });
+
+  it('is deterministic', () => {
+    const script: SimulationScript = {
+      steps: [
+        { day: 0, action: 'start', questId: 'v1-reentry-agency-1' },
+        { day: 0.5, action: 'complete', questId: 'v1-reentry-agency-1' },
+        { day: 9, action: 'tick' },
+      ],
+    };
+
+    expect(simulate(makeState(), script, catalog)).toEqual(simulate(makeState(), script, catalog));
+  });
+
+  it('passes when expectations are met', () => {
+    const script: SimulationScript = {
+      steps: [
+        {
+          day: 0,
+          action: 'start',
+          questId: 'v1-reentry-agency-1',
+          expect: { activeQuest: 'v1-reentry-agency-1', momentum: 'present', events: ['quest_started'] },
+        },
+        {
+          day: 0.5,
+          action: 'complete',
+          questId: 'v1-reentry-agency-1',
+          expect: { stats: { agency: 6 }, hasFlags: ['returned-to-action'], activeQuest: null, notOffered: ['v1-reentry-agency-1'] },
+        },
+        { day: 5, action: 'tick', expect: { range: 'gap', momentum: 'fading', offered: ['v1-order-remove-friction'] } },
+      ],
+    };
+
+    const result = simulate(makeState(), script, catalog);
+
+    expect(result.steps.flatMap((step) => step.failures)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  it('reports unmet expectations on the failing step', () => {
+    const script: SimulationScript = {
+      steps: [
+        { day: 0, action: 'tick' },
+        { day: 1, action: 'tick', expect: { stats: { courage: 9 }, range: 'recent', hasFlags: ['spoke-difficult-truth'] } },
+      ],
+    };
+
+    const result = simulate(makeState(), script, catalog);
+
+    expect(result.passed).toBe(false);
+    expect(result.steps[0].failures).toEqual([]);
+    expect(result.steps[1].failures).toEqual([
+      'expected courage 9, got 3',
+      'expected flag spoke-difficult-truth to be set',
+      'expected range recent, got long_gap',
+    ]);
+  });
+
+  it('uses absolute times and rejects steps that go back in time', () => {
+    const script: SimulationScript = {
+      steps: [
+        { atMs: 5000000, action: 'tick' },
+        { atMs: 2000000, action: 'start', questId: 'v1-reentry-agency-1' },
+      ],
+    };
+
+    const result = simulate(makeState(), script, catalog);
+
+    expect(result.passed).toBe(false);
+    expect(result.steps[1].failures).toEqual(['step goes back in time (2000000 < 5000000)']);
+    expect(result.finalState.activeQuest).toBeUndefined();
+    expect(result.finalState.timeContext.nowMs).toBe(5000000);
+  });
+
+  it('leaves state unchanged for unknown quests', () => {
+    const script: SimulationScript = {
+      steps: [{ day: 0, action: 'start', questId: 'retired-quest' }],
+    };
+
+    const result = simulate(makeState(), script, catalog);
+
+    expect(result.steps[0].events).toEqual([]);
+    expect(result.finalState.activeQuest).toBeUndefined();
+  });
+});
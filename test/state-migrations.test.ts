@@ -0,0 +1,233 @@
+/**
+ * Stored state migration tests.
+ *
+ * Loads a fixture of every historical StoredState shape and verifies that
+ * each one migrates to a valid current document that the engine can use,
+ * including a baseline player saved mid-quest and a player whose completion
+ * predates the unlock it now grants.
+ */
+
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import {
+  STATE_MIGRATIONS,
+  migrateStoredState,
+  storedSchemaVersion,
+  withCompletionUnlocks,
+  type StoredDocument,
+} from '../src/http/state-migrations';
+import { CURRENT_SCHEMA_VERSION, deserializeState, serializeState, type StoredState } from '../src/http/state-serialization';
+import { validateStoredState } from '../src/http/validation';
+import { tick } from '../src/domain/engine';
+import { isQuestAvailable } from '../src/domain/rules';
+import { catalog } from '../src/quests/catalog';
+import v1Baseline from './fixtures/stored-state/v1-baseline.json';
+import v1BaselineMidQuest from './fixtures/stored-state/v1-baseline-mid-quest.json';
+import v1ActiveQuest from './fixtures/stored-state/v1-active-quest.json';
+import v1UnlockedQuests from './fixtures/stored-state/v1-unlocked-quests.json';
+import v2Unversioned from './fixtures/stored-state/v2-unversioned.json';
+import v2UnversionedMomentum from './fixtures/stored-state/v2-unversioned-momentum.json';
+import v2 from './fixtures/stored-state/v2.json';
+import v2CompletedWithoutUnlocks from './fixtures/stored-state/v2-completed-without-unlocks.json';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Every shape StoredState has been saved in, with its schema version.
+ */
+const FIXTURES: Array<{ name: string; version: number; document: StoredDocument }> = [
+  { name: 'v1 baseline', version: 1, document: v1Baseline },
+  { name: 'v1 baseline mid-quest', version: 1, document: v1BaselineMidQuest },
+  { name: 'v1 with active quest', version: 1, document: v1ActiveQuest },
+  { name: 'v1 with unlocked quests', version: 1, document: v1UnlockedQuests },
+  { name: 'v2 unversioned', version: 2, document: v2Unversioned },
+  { name: 'v2 unversioned with momentum', version: 2, document: v2UnversionedMomentum },
+  { name: 'v2', version: 2, document: v2 },
+  { name: 'v2 completed without unlocks', version: 2, document: v2CompletedWithoutUnlocks },
+];
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('migrateStoredState', () => {
+  it.each(FIXTURES)('migrates $name to a valid current document', ({ version, document }) => {
+    const migrated = migrateStoredState(document);
+
+    expect(migrated.ok).toBe(true);
+    if (!migrated.ok) return;
+    expect(migrated.fromVersion).toBe(version);
+    expect(migrated.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(validateStoredState(migrated.state)).toEqual({ ok: true, value: migrated.state });
+  });
+
+  it.each(FIXTURES)('keeps $name usable by the engine', ({ document }) => {
+    const migrated = migrateStoredState(document);
+    if (!migrated.ok) throw new Error(migrated.error);
+
+    const state = deserializeState(migrated.state);
+    const ticked = tick(state, state.timeContext.nowMs + 60_000).state;
+
+    expect(ticked.stats).toEqual(document.stats);
+    expect(validateStoredState(serializeState(ticked)).ok).toBe(true);
+  });
+
+  it('turns legacy completion times into completion records', () => {
+    const migrated = migrateStoredState(v1Baseline);
+    if (!migrated.ok) throw new Error(migrated.error);
+
+    expect(migrated.state.completions).toEqual({
+      'v1-agency-uncertain-start': {
+        questId: 'v1-agency-uncertain-start',
+        count: 1,
+        lastCompletedAtMs: 1735650000000,
+        lastCompletedRange: 'recent',
+      },
+      'v1-order-remove-friction': {
+        questId: 'v1-order-remove-friction',
+        count: 1,
+        lastCompletedAtMs: 1735736400000,
+        lastCompletedRange: 'recent',
+      },
+    });
+    expect(migrated.state).not.toHaveProperty('completedQuestIds');
+    expect(migrated.state).not.toHaveProperty('completedAtByQuestId');
+  });
+
+  it('keeps the active quest and unlocked quests of older documents', () => {
+    const withActive = migrateStoredState(v1ActiveQuest);
+    const withUnlocked = migrateStoredState(v1UnlockedQuests);
+
+    expect(withActive.ok && withActive.state.activeQuest).toEqual(v1ActiveQuest.activeQuest);
+    expect(withUnlocked.ok && withUnlocked.state.unlockedQuests).toEqual(v1UnlockedQuests.unlockedQuests);
+  });
+
+  it('keeps a baseline start that recorded no quest', () => {
+    const midQuest = migrateStoredState(v1BaselineMidQuest);
+    const completed = migrateStoredState(v1Baseline);
+
+    expect(midQuest.ok && midQuest.state.untrackedStartMs).toBe(1735739000000);
+    expect(completed.ok && completed.state).not.toHaveProperty('untrackedStartMs');
+    expect(migrateStoredState(v1ActiveQuest)).not.toHaveProperty('state.untrackedStartMs');
+  });
+
+  it('leaves current documents unchanged', () => {
+    expect(migrateStoredState(v2)).toEqual({ ok: true, state: v2, fromVersion: 2 });
+  });
+
+  it('rejects documents newer than this code', () => {
+    const result = migrateStoredState({ ...v2, schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects a version with no migration', () => {
+    const result = migrateStoredState(v1Baseline, []);
+
+    expect(result).toEqual({ ok: false, error: 'No migration from stored state version 1' });
+  });
+
+  it('rejects a non-object', () => {
+    expect(migrateStoredState('state').ok).toBe(false);
+  });
+});
+
+describe('STATE_MIGRATIONS', () => {
+  it('has one migration from every version below the current one', () => {
+    const versions = STATE_MIGRATIONS.map((migration) => migration.from);
+
+    expect(versions).toEqual(Array.from({ length: CURRENT_SCHEMA_VERSION - 1 }, (_, index) => index + 1));
+  });
+});
+
+describe('storedSchemaVersion', () => {
+  it('infers the version of unversioned documents from their shape', () => {
+    expect(storedSchemaVersion(v1Baseline)).toBe(1);
+    expect(storedSchemaVersion(v2Unversioned)).toBe(2);
+    expect(storedSchemaVersion(v2)).toBe(2);
+  });
+});
+
+describe('withCompletionUnlocks', () => {
+  const followUp = 'v1-courage-expose-imperfect-work';
+
+  it('unlocks the follow-up of a quest completed before it declared the unlock', () => {
+    const stored = v2CompletedWithoutUnlocks as StoredState;
+    const state = deserializeState(withCompletionUnlocks(stored, catalog));
+
+    expect(state.unlockedQuests).toEqual(new Set([followUp]));
+    expect(isQuestAvailable(state, catalog.getQuestById(followUp)!, stored.timeContext.nowMs)).toBe(true);
+    expect(isQuestAvailable(deserializeState(stored), catalog.getQuestById(followUp)!, stored.timeContext.nowMs)).toBe(false);
+  });
+
+  it('keeps existing unlocks and returns complete states unchanged', () => {
+    const withUnlocked = migrateStoredState(v1UnlockedQuests);
+    if (!withUnlocked.ok) throw new Error(withUnlocked.error);
+    const backfilled = withCompletionUnlocks(withUnlocked.state, catalog);
+
+    expect(backfilled.unlockedQuests).toEqual(['v1-courage-difficult-truth', followUp]);
+    expect(withCompletionUnlocks(backfilled, catalog)).toBe(backfilled);
+  });
+});
+
+describe('PlayerStateDO with a completion saved before its unlock', () => {
+  it('backfills the unlock when it reads the stored state', async () => {
+    const stub = env.PLAYER_STATE_DO.get(env.PLAYER_STATE_DO.idFromName('completed-without-unlocks'));
+    expect((await stub.putState(v2CompletedWithoutUnlocks)).ok).toBe(true);
+
+    const { state } = await stub.getState(1735740000000);
+
+    expect(state.unlockedQuests).toEqual(['v1-courage-expose-imperfect-work']);
+  });
+});
+
+describe('PlayerStateDO with a baseline player mid-quest', () => {
+  const questId = 'v1-courage-expose-imperfect-work';
+
+  async function baselinePlayer(name: string) {
+    const stub = env.PLAYER_STATE_DO.get(env.PLAYER_STATE_DO.idFromName(name));
+    expect((await stub.putState(v1BaselineMidQuest)).ok).toBe(true);
+    return stub;
+  }
+
+  it('completes the quest started before active quests were recorded, once', async () => {
+    const stub = await baselinePlayer('baseline-complete');
+
+    const completed = await stub.applyAction('complete', questId, 1735743600000);
+    const again = await stub.applyAction('complete', questId, 1735743700000);
+
+    expect(completed.outcome).toBe('applied');
+    expect(completed.receipt?.questId).toBe(questId);
+    expect(completed.state).not.toHaveProperty('untrackedStartMs');
+    expect(again.outcome).toBe('quest_not_started');
+  });
+
+  it('rejects a quest that could not have been started', async () => {
+    const stub = env.PLAYER_STATE_DO.get(env.PLAYER_STATE_DO.idFromName('baseline-locked'));
+    const withoutCompletions = { ...v1BaselineMidQuest, completedQuestIds: [], completedAtByQuestId: {} };
+    expect((await stub.putState(withoutCompletions)).ok).toBe(true);
+
+    expect((await stub.applyAction('complete', questId, 1735743600000)).outcome).toBe('quest_not_started');
+  });
+
+  it('rejects a quest already completed that cannot be repeated', async () => {
+    const stub = await baselinePlayer('baseline-repeat');
+
+    const completed = await stub.applyAction('complete', 'v1-agency-uncertain-start', 1735743600000);
+    const setAside = await stub.applyAction('set_aside', 'v1-agency-uncertain-start', 1735743600000);
+
+    expect(completed.outcome).toBe('quest_not_started');
+    expect(setAside.outcome).toBe('quest_not_started');
+    expect((await stub.applyAction('complete', questId, 1735743700000)).outcome).toBe('applied');
+  });
+
+  it('drops the untracked start when a new quest is started', async () => {
+    const stub = await baselinePlayer('baseline-start');
+
+    await stub.applyAction('start', 'v1-order-remove-friction', 1735743600000);
+
+    expect((await stub.applyAction('complete', questId, 1735743700000)).outcome).toBe('quest_not_started');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * DO boundary validation tests.
+ *
+ * Verifies that StoredState, Receipt, QuestAction, ShareLinkData and engine
+ * overrides are accepted when well-formed and rejected with every invalid
+ * field listed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateStoredState,
+  validateReceipt,
+  validateQuestAction,
+  validateShareLinkData,
+  validateEngineOverrides,
+  validationErrorResponse,
+  type ValidationResult,
+} from '../src/http/validation';
+import { CURRENT_SCHEMA_VERSION, serializeState, type StoredState } from '../src/http/state-serialization';
+import { createReceipt, type Receipt } from '../src/http/receipt';
+import type { ShareLinkData } from '../src/http/share-link';
+import { catalog } from '../src/quests/catalog';
+import type { CharacterState } from '../src/domain/state';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function makeState(overrides: Partial<StoredState> = {}): StoredState {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    stats: { agency: 5, courage: 5, order: 5 },
+    flags: ['first-step'],
+    timeContext: { range: 'recent', nowMs: 1_000, lastMeaningfulActionMs: 500, momentum: 'present' },
+    completions: {
+      'quest-a': { questId: 'quest-a', count: 2, lastCompletedAtMs: 500, lastCompletedRange: 'recent' },
+    },
+    activeQuest: { questId: 'quest-b', startedAtMs: 900, status: 'in_progress' },
+    unlockedQuests: [],
+    ...overrides,
+  };
+}
+
+function makeReceipt(overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    id: 'receipt-1',
+    createdAtMs: 1_000,
+    questId: 'quest-a',
+    questType: 'agency',
+    tone: 'calm',
+    title: 'Action completed',
+    line: 'You took a step forward.',
+    shareText: 'Took a step forward.',
+    ...overrides,
+  };
+}
+
+function fieldsOf<T>(result: ValidationResult<T>): string[] {
+  return result.ok ? [] : result.issues.map((issue) => issue.field);
+}
+
+// ============================================================================
+// StoredState
+// ============================================================================
+
+describe('validateStoredState', () => {
+  it('accepts a well-formed state', () => {
+    const state = makeState();
+    expect(validateStoredState(state)).toEqual({ ok: true, value: state });
+  });
+
+  it('accepts every state the engine serializes', () => {
+    const state: CharacterState = {
+      stats: { agency: 0, courage: 3, order: 1 },
+      flags: new Set(['a']),
+      timeContext: { range: 'long_gap', nowMs: 0 },
+    };
+    expect(validateStoredState(serializeState(state)).ok).toBe(true);
+  });
+
+  it('rejects negative, fractional and unknown stats', () => {
+    const state = { ...makeState(), stats: { agency: -1, courage: 1.5, order: 2, charisma: 4 } };
+    expect(fieldsOf(validateStoredState(state))).toEqual(['stats.agency', 'stats.courage', 'stats.charisma']);
+  });
+
+  it('rejects a malformed timeContext', () => {
+    const state = { ...makeState(), timeContext: { range: 'yesterday', nowMs: 'now', momentum: 'strong' } };
+    expect(fieldsOf(validateStoredState(state))).toEqual([
+      'timeContext.range',
+      'timeContext.nowMs',
+      'timeContext.momentum',
+    ]);
+  });
+
+  it('rejects malformed optional parts', () => {
+    const state = {
+      ...makeState(),
+      flags: ['ok', 3],
+      completions: { 'quest-a': { questId: 'quest-z', count: 0, lastCompletedAtMs: 1, lastCompletedRange: 'recent' } },
+      activeQuest: { questId: 'quest-b', startedAtMs: 1, status: 'done' },
+    };
+    expect(fieldsOf(validateStoredState(state))).toEqual([
+      'flags.1',
+      'completions.quest-a.questId',
+      'completions.quest-a.count',
+      'activeQuest.status',
+    ]);
+  });
+
+  it('rejects documents that have not been migrated', () => {
+    const { schemaVersion: _version, completions: _completions, ...legacy } = makeState();
+    expect(fieldsOf(validateStoredState(legacy))).toEqual(['schemaVersion', 'completions']);
+  });
+
+  it('rejects a non-object', () => {
+    expect(fieldsOf(validateStoredState(null))).toEqual(['state']);
+  });
+});
+
+// ============================================================================
+// Receipts, Quest Actions and Share Links
+// ============================================================================
+
+describe('validateReceipt', () => {
+  it('accepts receipts created for every catalog quest', () => {
+    for (const quest of catalog.listAll?.() ?? []) {
+      expect(validateReceipt(createReceipt(quest, null, 1_000)).ok, quest.id).toBe(true);
+    }
+  });
+
+  it('rejects a missing or overlong shareText and unknown tone', () => {
+    expect(fieldsOf(validateReceipt(makeReceipt({ shareText: '' })))).toEqual(['shareText']);
+    expect(fieldsOf(validateReceipt(makeReceipt({ shareText: 'x'.repeat(181) })))).toEqual(['shareText']);
+    expect(fieldsOf(validateReceipt({ ...makeReceipt(), tone: 'loud' }))).toEqual(['tone']);
+    expect(fieldsOf(validateReceipt({ ...makeReceipt(), tone: 'firm' }))).toEqual(['tone']);
+  });
+});
+
+describe('validateQuestAction', () => {
+  it('accepts a recorded action', () => {
+    const action = { id: 'action-1', questId: 'quest-a', action: 'Called my sister', createdAtMs: 1_000 };
+    expect(validateQuestAction(action).ok).toBe(true);
+  });
+
+  it('rejects blank action text and a missing timestamp', () => {
+    const action = { id: 'action-1', questId: 'quest-a', action: '   ' };
+    expect(fieldsOf(validateQuestAction(action))).toEqual(['action', 'createdAtMs']);
+  });
+});
+
+describe('validateShareLinkData', () => {
+  const receipt = makeReceipt();
+  const data: ShareLinkData = {
+    shareLink: { token: 'token-1', receiptId: receipt.id, createdAtMs: 1_000 },
+    receipt: {
+      questType: receipt.questType,
+      tone: receipt.tone,
+      title: receipt.title,
+      line: receipt.line,
+      shareText: receipt.shareText,
+    },
+  };
+
+  it('accepts a share link', () => {
+    expect(validateShareLinkData(data).ok).toBe(true);
+  });
+
+  it('reports nested fields with their path', () => {
+    const invalid = {
+      shareLink: { ...data.shareLink, revoked: 'yes' },
+      receipt: { ...data.receipt, questType: 'charisma' },
+    };
+    expect(fieldsOf(validateShareLinkData(invalid))).toEqual(['shareLink.revoked', 'receipt.questType']);
+  });
+});
+
+describe('validateEngineOverrides', () => {
+  it('accepts time threshold overrides and an empty object', () => {
+    expect(validateEngineOverrides({ timeThresholdsMs: { recentMs: 345600000 } }).ok).toBe(true);
+    expect(validateEngineOverrides({}).ok).toBe(true);
+  });
+
+  it('rejects unknown keys at every level', () => {
+    const overrides = { timeThresholdsMs: { recentMs: 1000, staleMs: 5 }, maxQuestChoices: 9 };
+    expect(fieldsOf(validateEngineOverrides(overrides))).toEqual(['maxQuestChoices', 'timeThresholdsMs.staleMs']);
+  });
+
+  it('rejects thresholds that are not positive numbers', () => {
+    const overrides = { timeThresholdsMs: { recentMs: 0, longGapMs: '604800000' } };
+    expect(fieldsOf(validateEngineOverrides(overrides))).toEqual(['timeThresholdsMs.recentMs', 'timeThresholdsMs.longGapMs']);
+  });
+});
+
+describe('validationErrorResponse', () => {
+  it('returns a 400 listing each invalid field', async () => {
+    const response = validationErrorResponse([{ field: 'stats.agency', message: 'must be a non-negative integer' }]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Validation failed',
+      issues: [{ field: 'stats.agency', message: 'must be a non-negative integer' }],
+    });
+  });
+});
@@ -1,13 +1,14 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 721f1c15e2ef698ea70fc203e4638ca1)
+// Generated by Wrangler by running `wrangler types` (hash: 685a308cb768c3ea9cee3a28cf627e83)
 // Runtime types generated with workerd@1.20251210.0 2025-12-13 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "PlayerStateDO" | "ShareLinkDO";
 	}
 	interface Env {
-		PLAYER_STATE_DO: DurableObjectNamespace /* PlayerStateDO from be-game-1 */;
-		SHARE_LINK_DO: DurableObjectNamespace /* ShareLinkDO from be-game-1 */;
+		PLAYER_STATE_DO: DurableObjectNamespace<import("./src/index").PlayerStateDO>;
+		SHARE_LINK_DO: DurableObjectNamespace<import("./src/index").ShareLinkDO>;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -0,0 +1,24 @@
+/**
+ * Optional vars and secrets read by the worker.
+ *
+ * worker-configuration.d.ts is generated by `wrangler types` from
+ * wrangler.jsonc and only knows about vars set there. These are unset by
+ * default (loadConfig in src/config.ts falls back to DEFAULT_APP_CONFIG, and
+ * debug routes stay disabled without DEBUG_TOKEN), so they are declared
+ * optional here instead of in the generated file.
+ */
+declare namespace Cloudflare {
+	interface Env {
+		DEBUG_TOKEN?: string;
+		TIME_RECENT_MS?: string;
+		TIME_LONG_GAP_MS?: string;
+		MAX_QUEST_CHOICES?: string;
+		QUEST_CARDS_PER_RESPONSE?: string;
+		INITIAL_STATS?: string;
+		PACING_POLICY?: string;
+		REST_WINDOW_MS?: string;
+		RECEIPT_PAGE_SIZE?: string;
+		COOKIE_MAX_AGE_SECONDS?: string;
+		IDEMPOTENCY_WINDOW_SECONDS?: string;
+	}
+}